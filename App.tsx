@@ -1,16 +1,29 @@
-import React, { useState, useCallback } from 'react';
-import GraphVisualizer from './components/GraphVisualizer';
-import ControlPanel from './components/ControlPanel';
-import { GraphData, GraphSettings, DEFAULT_SETTINGS, AssemblyNode } from './types';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import GraphVisualizer, { GraphVisualizerHandle } from './components/GraphVisualizer';
+import ControlPanel, { AnalysisSection } from './components/ControlPanel';
+import { GraphData, GraphSettings, GraphFileInfo, DEFAULT_SETTINGS, ColorMode, AssemblyNode, AssemblyPath, ParseDiagnostic } from './types';
 import { generateMockAssemblyGraph } from './services/graphGenerator';
-import { parseGFAAsync } from './services/gfaParser';
+import { createRandom } from './services/random';
+import { parseLayoutFile } from './services/layoutFile';
+import { parseGraphFile } from './services/graphParseClient';
+import { getSegmentDisplayNodes, parseStrandNodeId, toStrandNode } from './services/orientation';
+import { buildLinkIndex, getPathStats, getPathSequence } from './services/pathUtils';
+import { collectTagNames } from './services/tags';
+import { getGraphStats, getSubgraph } from './services/graphStats';
+import { findShortestPaths, FoundPath, PathEndpoint, PathWeight } from './services/pathFinder';
+import { findBubbles } from './services/bubbles';
+import { ArtifactKind, findArtifacts } from './services/artifacts';
+import { analyzeRepeats } from './services/repeats';
+import { getScopedGraph, resolveSegmentIds } from './services/scope';
+import { downloadBlob } from './services/download';
 import { Download, Menu, X, FileText, Image, MousePointer2, BoxSelect } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [data, setData] = useState<GraphData>(() => generateMockAssemblyGraph(40));
+  const [data, setData] = useState<GraphData>(() => generateMockAssemblyGraph(40, createRandom(DEFAULT_SETTINGS.layoutSeed)));
   const [settings, setSettings] = useState<GraphSettings>(DEFAULT_SETTINGS);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
+  const visualizerRef = useRef<GraphVisualizerHandle>(null);
   
   // Selection State
   const [selectedNodes, setSelectedNodes] = useState<AssemblyNode[]>([]);
@@ -19,9 +32,116 @@ const App: React.FC = () => {
   // Parsing State
   const [isParsing, setIsParsing] = useState(false);
   const [parsingProgress, setParsingProgress] = useState(0);
-  const [uploadedGfaContent, setUploadedGfaContent] = useState<string | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFileInfo, setUploadedFileInfo] = useState<GraphFileInfo>({ format: 'gfa', gzip: false });
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [searchSummary, setSearchSummary] = useState<{ total: number; found: number; notFound: string[] } | null>(null);
+  const [activePathId, setActivePathId] = useState<string | null>(null);
+  // Find Path results, best first, and which of them is highlighted
+  const [foundPaths, setFoundPaths] = useState<FoundPath[]>([]);
+  const [activeFoundPath, setActiveFoundPath] = useState<number | null>(null);
+  const [pathFinderStatus, setPathFinderStatus] = useState<{ message: string; error: boolean } | null>(null);
+  // Strict mode refuses to draw a file with any error-level diagnostic; lenient mode skips the bad records
+  const [strictParsing, setStrictParsing] = useState(false);
+  const [parseDiagnostics, setParseDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [parseRejected, setParseRejected] = useState(false);
+  const [layoutFileStatus, setLayoutFileStatus] = useState<{ message: string; error: boolean } | null>(null);
+  // What the visualizer draws; strand nodes in double mode
+  const [shownData, setShownData] = useState<GraphData | null>(null);
+  // Sidebar sections whose analysis is open, so large graphs only pay for the analyses someone is looking at
+  const [openAnalyses, setOpenAnalyses] = useState<Set<AnalysisSection>>(() => new Set());
+
+  // A highlighted path only makes sense for the graph it came from
+  React.useEffect(() => {
+    setActivePathId(null);
+    setFoundPaths([]);
+    setActiveFoundPath(null);
+    setPathFinderStatus(null);
+  }, [data]);
+
+  // Lookups shared by path statistics and path sequence export
+  const pathLookup = useMemo(() => {
+    if ((data.paths ?? []).length === 0) return null;
+    return {
+      nodeMap: new Map<string, AssemblyNode>(data.nodes.map(n => [n.id, n])),
+      linkIndex: buildLinkIndex(data.links)
+    };
+  }, [data]);
+
+  const pathSummaries = useMemo(() => {
+    if (!pathLookup) return [];
+    return (data.paths ?? []).map(path => ({ path, stats: getPathStats(path, pathLookup.nodeMap, pathLookup.linkIndex) }));
+  }, [data, pathLookup]);
+
+  const tagNames = useMemo(() => collectTagNames(data.nodes), [data]);
+
+  // Scope: the visualizer draws and lays out only this part of the graph; analyses still see all of it
+  const scopeCentres = useMemo(() => resolveSegmentIds(settings.scopeNodes, data), [settings.scopeNodes, data]);
+  const scopeCentreKey = scopeCentres.found.join('\n');
+  const scoped = useMemo(() => getScopedGraph(data, scopeCentreKey ? scopeCentreKey.split('\n') : [], {
+    scope: settings.scope,
+    steps: settings.scopeSteps,
+    distance: settings.scopeDistance
+  }), [data, scopeCentreKey, settings.scope, settings.scopeSteps, settings.scopeDistance]);
+
+  // Each analysis runs only while its section is open or a color or label mode shows it
+  const needsBubbles = openAnalyses.has('bubbles') || settings.colorMode === ColorMode.BUBBLE;
+  const needsArtifacts = openAnalyses.has('artifacts') || settings.colorMode === ColorMode.ARTIFACT;
+  const needsRepeats = openAnalyses.has('repeats') || settings.colorMode === ColorMode.COPY_NUMBER || settings.labelContent.copyNumber;
+  const bubbles = useMemo(() => needsBubbles ? findBubbles(data) : undefined, [data, needsBubbles]);
+  const repeats = useMemo(() => needsRepeats ? analyzeRepeats(data) : undefined, [data, needsRepeats]);
+  const artifacts = useMemo(() => needsArtifacts ? findArtifacts(data, {
+    tipMaxLength: settings.tipMaxLength,
+    isolatedMaxLength: settings.isolatedMaxLength,
+    lowCoverageRatio: settings.lowCoverageRatio
+  }) : undefined, [data, needsArtifacts, settings.tipMaxLength, settings.isolatedMaxLength, settings.lowCoverageRatio]);
+
+  const handleAnalysisSectionToggle = useCallback((section: AnalysisSection, open: boolean) => {
+    setOpenAnalyses(prev => {
+      const next = new Set(prev);
+      if (open) next.add(section);
+      else next.delete(section);
+      return next;
+    });
+  }, []);
+
+  // Statistics count segments, so strand nodes in double mode fold back onto the segment they show
+  const graphStats = useMemo(() => getGraphStats(data), [data]);
+  const shownStats = useMemo(() => {
+    if (!shownData) return null;
+    return getGraphStats(getSubgraph(data, new Set(shownData.nodes.map(n => n.segmentId ?? n.id))));
+  }, [data, shownData]);
+  const selectionGraphStats = useMemo(() => {
+    if (selectedNodes.length === 0) return null;
+    return getGraphStats(getSubgraph(data, new Set(selectedNodes.map(n => n.segmentId ?? n.id))));
+  }, [data, selectedNodes]);
+
+  // Links touching the active contig, for its tag listing; strand nodes map back to their segment
+  const selectedLinks = useMemo(() => {
+    if (selectedNodes.length !== 1) return [];
+    const segmentId = selectedNodes[0].segmentId ?? selectedNodes[0].id;
+    return data.links.filter(l => l.source === segmentId || l.target === segmentId);
+  }, [data, selectedNodes]);
+
+  const activePath = useMemo(() => {
+    return data.paths?.find(p => p.id === activePathId) ?? null;
+  }, [data, activePathId]);
+
+  // A found path is drawn with the same highlight as a GFA path; only one of them is shown at a time
+  const highlightedPath = useMemo<AssemblyPath | null>(() => {
+    if (activeFoundPath === null || !foundPaths[activeFoundPath]) return activePath;
+    return { id: `found-path-${activeFoundPath + 1}`, kind: 'P', steps: foundPaths[activeFoundPath].steps };
+  }, [activePath, foundPaths, activeFoundPath]);
+
+  const handleSelectPath = useCallback((id: string | null) => {
+    setActivePathId(id);
+    if (id !== null) setActiveFoundPath(null);
+  }, []);
+
+  const handleSelectFoundPath = useCallback((index: number | null) => {
+    setActiveFoundPath(index);
+    if (index !== null) setActivePathId(null);
+  }, []);
 
   React.useEffect(() => {
     const color = settings.lightBackground ? '#ffffff' : '#0f172a';
@@ -30,44 +150,71 @@ const App: React.FC = () => {
   }, [settings.lightBackground]);
 
   const regenerateGraph = useCallback(() => {
-    setData(generateMockAssemblyGraph(Math.floor(Math.random() * 30) + 20));
+    const random = createRandom(settings.layoutSeed);
+    setData(generateMockAssemblyGraph(Math.floor(random() * 30) + 20, random));
     setSelectedNodes([]);
-  }, []);
+  }, [settings.layoutSeed]);
 
   const demoFilesMap = import.meta.glob('./demo_graph/*.gfa', { eager: true, query: '?raw', import: 'default' }) as Record<string, string>;
   const demoFiles = Object.keys(demoFilesMap).map(p => ({ path: p, name: p.split('/').pop() || p }));
   const [selectedDemoPath, setSelectedDemoPath] = useState<string>('./demo_graph/graph.gfa');
 
-  const handleGFAUploadContent = useCallback((content: string) => {
-    setUploadedGfaContent(content);
+  const handleGFAUploadContent = useCallback((file: File, info: GraphFileInfo) => {
+    setUploadedFile(file);
+    setUploadedFileInfo(info);
     setParsingProgress(0);
     setIsParsing(false);
   }, []);
 
+  const applyParsedGraph = useCallback((newData: GraphData) => {
+    const diagnostics = newData.diagnostics ?? [];
+    setParseDiagnostics(diagnostics);
+    const rejected = strictParsing && diagnostics.some(d => d.severity === 'error');
+    setParseRejected(rejected);
+    if (rejected) return;
+    setData(newData);
+    setSelectedNodes([]);
+    setParsingProgress(1);
+  }, [strictParsing]);
+
+  const reportParseFailure = useCallback((e: any, what: string) => {
+    console.error(`Failed to parse ${what}`, e);
+    setParseDiagnostics([{
+      line: 0,
+      severity: 'error',
+      code: 'read-failure',
+      message: `Failed to read ${what}: ${e?.message ?? String(e)}`
+    }]);
+    setParseRejected(true);
+  }, []);
+
+  // Reading the start of a chosen file (to detect its format) failed before anything could be drawn
+  const handleUploadFailure = useCallback((file: File, e: unknown) => {
+    setUploadedFile(null);
+    reportParseFailure(e, file.name);
+  }, [reportParseFailure]);
+
   const handleStartDraw = useCallback(async () => {
-    if (!uploadedGfaContent) return;
+    if (!uploadedFile) return;
     try {
       const controller = new AbortController();
       setAbortController(controller);
       setIsParsing(true);
       setParsingProgress(0);
-      const newData = await parseGFAAsync(uploadedGfaContent, (done, total) => {
+      const newData = await parseGraphFile(uploadedFile, uploadedFileInfo, (done, total) => {
         setParsingProgress(total ? done / total : 0);
       }, controller.signal);
-      setData(newData);
-      setSelectedNodes([]);
-      setParsingProgress(1);
+      applyParsedGraph(newData);
     } catch (e: any) {
       if (e?.name !== 'AbortError') {
-        console.error("Failed to parse GFA", e);
-        alert("Failed to parse GFA file. Please check the format.");
+        reportParseFailure(e, uploadedFile.name);
       }
     } finally {
       setIsParsing(false);
       setAbortController(null);
 
     }
-  }, [uploadedGfaContent]);
+  }, [uploadedFile, uploadedFileInfo, applyParsedGraph, reportParseFailure]);
 
   const handleLoadSelectedDemo = useCallback(async () => {
     const content = demoFilesMap[selectedDemoPath];
@@ -77,22 +224,19 @@ const App: React.FC = () => {
       setAbortController(controller);
       setIsParsing(true);
       setParsingProgress(0);
-      const newData = await parseGFAAsync(content, (done, total) => {
+      const newData = await parseGraphFile(new Blob([content]), { format: 'gfa', gzip: false }, (done, total) => {
         setParsingProgress(total ? done / total : 0);
       }, controller.signal);
-      setData(newData);
-      setSelectedNodes([]);
-      setParsingProgress(1);
+      applyParsedGraph(newData);
     } catch (e: any) {
       if (e?.name !== 'AbortError') {
-        console.error('Failed to load demo GFA', e);
-        alert('Failed to load demo GFA.');
+        reportParseFailure(e, 'demo GFA');
       }
     } finally {
       setIsParsing(false);
       setAbortController(null);
     }
-  }, [selectedDemoPath]);
+  }, [selectedDemoPath, applyParsedGraph, reportParseFailure]);
 
   const handleCancelDraw = useCallback(() => {
     abortController?.abort();
@@ -104,21 +248,103 @@ const App: React.FC = () => {
       .map(s => s.trim())
       .filter(Boolean);
     const unique = Array.from(new Set(parts));
-    const set = new Set(unique);
-    const foundNodes = data.nodes.filter(n => set.has(n.id));
-    const foundIds = new Set(foundNodes.map(n => n.id));
-    const notFound = unique.filter(id => !foundIds.has(id));
+    const nodeById = new Map<string, AssemblyNode>(data.nodes.map(n => [n.id, n]));
+    const found = new Map<string, AssemblyNode>();
+    const notFound: string[] = [];
+    unique.forEach(query => {
+      // Exact segment ids win, so names that really end in '+'/'-' are still found
+      const exact = nodeById.get(query);
+      const { segmentId, orientation } = exact ? { segmentId: query } : parseStrandNodeId(query);
+      const node = exact ?? nodeById.get(segmentId);
+      if (!node) {
+        notFound.push(query);
+        return;
+      }
+      if (!settings.doubleMode) {
+        found.set(node.id, node);
+        return;
+      }
+      // In double mode "ctg_5-" picks one strand, a bare "ctg_5" picks both
+      (orientation ? [orientation] : ['+', '-'] as const).forEach(o => {
+        const strandNode = toStrandNode(node, o);
+        found.set(strandNode.id, strandNode);
+      });
+    });
+    const foundNodes = Array.from(found.values());
     setSelectedNodes(foundNodes);
-    setSearchSummary({ total: unique.length, found: foundNodes.length, notFound });
+    setSearchSummary({ total: unique.length, found: unique.length - notFound.length, notFound });
+  }, [data, settings.doubleMode]);
+
+  // Shortest path between two segments given by id; "ctg_5+" holds an end to one strand
+  const handleFindPath = useCallback((fromInput: string, toInput: string, weight: PathWeight, count: number) => {
+    const nodeIds = new Set(data.nodes.map(n => n.id));
+    const resolve = (input: string): PathEndpoint | null => {
+      const query = input.trim();
+      if (nodeIds.has(query)) return { segmentId: query };
+      const { segmentId, orientation } = parseStrandNodeId(query);
+      return nodeIds.has(segmentId) ? { segmentId, orientation } : null;
+    };
+    const from = resolve(fromInput);
+    const to = resolve(toInput);
+    if (!from || !to) {
+      const missing = [!from && fromInput.trim(), !to && toInput.trim()].filter(Boolean);
+      setPathFinderStatus({ message: `Segment not found: ${missing.join(', ') || '(empty)'}`, error: true });
+      setFoundPaths([]);
+      setActiveFoundPath(null);
+      return;
+    }
+    const paths = findShortestPaths(data, from, to, weight, count);
+    setFoundPaths(paths);
+    setActiveFoundPath(paths.length > 0 ? 0 : null);
+    if (paths.length > 0) setActivePathId(null);
+    setPathFinderStatus(paths.length > 0
+      ? { message: `Found ${paths.length} path${paths.length === 1 ? '' : 's'}`, error: false }
+      : { message: 'No path joins these segments', error: true });
   }, [data]);
 
+  const handleClearFoundPaths = useCallback(() => {
+    setFoundPaths([]);
+    setActiveFoundPath(null);
+    setPathFinderStatus(null);
+  }, []);
+
+  // Selects segments by id (both strands in double mode)
+  const handleSelectSegments = useCallback((segmentIds: string[]) => {
+    setSelectedNodes(getSegmentDisplayNodes(data, segmentIds, settings.doubleMode));
+  }, [data, settings.doubleMode]);
+
+  // Selects every segment of a GFA2 group
+  const handleSelectGroup = useCallback((groupId: string) => {
+    const group = data.groups?.find(g => g.id === groupId);
+    if (group) handleSelectSegments(group.segmentIds);
+  }, [data, handleSelectSegments]);
+
+  // Selects a bubble with its entrance and exit (both strands in double mode) and brings it into view
+  const handleSelectBubble = useCallback((bubbleId: string) => {
+    const bubble = bubbles?.find(b => b.id === bubbleId);
+    if (!bubble) return;
+    const selected = getSegmentDisplayNodes(data, [bubble.entrance.segmentId, ...bubble.segmentIds, bubble.exit.segmentId], settings.doubleMode);
+    setSelectedNodes(selected);
+    visualizerRef.current?.zoomToNodes(selected.map(n => n.id));
+  }, [data, bubbles, settings.doubleMode]);
+
+  // Selects the flagged segments, all of them or those of one kind
+  const handleSelectArtifacts = useCallback((kind: ArtifactKind | null) => {
+    handleSelectSegments((artifacts ?? []).filter(a => !kind || a.kinds.includes(kind)).map(a => a.segmentId));
+  }, [artifacts, handleSelectSegments]);
+
+  // Strand node ids and segment ids don't match, so a selection can't carry over a display mode switch
+  React.useEffect(() => {
+    setSelectedNodes([]);
+  }, [settings.doubleMode]);
+
   const handleExportSvg = () => {
-    const svgElement = document.getElementById('main-graph-svg');
-    if (!svgElement) {
+    // A fresh SVG either way: a copy of the live one, or one built from the canvas scene
+    const clone = visualizerRef.current?.getExportSvg();
+    if (!clone) {
       console.error("SVG element not found");
       return;
     }
-    const clone = svgElement.cloneNode(true) as SVGSVGElement;
     clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
     
     // Inject a background rectangle so it's not transparent
@@ -134,20 +360,60 @@ const App: React.FC = () => {
     }
 
     const svgData = new XMLSerializer().serializeToString(clone);
-    const blob = new Blob([svgData], { type: "image/svg+xml;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "bandage_graph.svg";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(svgData, "bandage_graph.svg", "image/svg+xml;charset=utf-8");
+  };
+
+  // Spells the path with overlaps trimmed and saves it as a one-record FASTA
+  const handleExportPathSequence = (pathId: string) => {
+    const path = data.paths?.find(p => p.id === pathId);
+    if (!path || !pathLookup) return;
+    const sequence = getPathSequence(path, pathLookup.nodeMap, pathLookup.linkIndex);
+    if (sequence === null) return;
+
+    const lines = [`>${path.id}`];
+    for (let i = 0; i < sequence.length; i += 80) lines.push(sequence.slice(i, i + 80));
+    downloadBlob(lines.join('\n') + '\n', `${path.id.replace(/[^\w.-]+/g, '_')}.fasta`, "text/plain;charset=utf-8");
   };
 
+  // Saves the flagged segment ids, one per line
+  const handleExportArtifacts = () => {
+    if (!artifacts || artifacts.length === 0) return;
+    downloadBlob(artifacts.map(a => a.segmentId).join('\n') + '\n', "bandage_artifacts.txt", "text/plain;charset=utf-8");
+  };
+
+  // Saves contig positions (and pins) keyed by node id, for restoring the same picture later
+  const handleExportLayout = () => {
+    const layout = visualizerRef.current?.getLayoutFile();
+    if (!layout) return;
+    downloadBlob(JSON.stringify(layout), "bandage_layout.json", "application/json;charset=utf-8");
+  };
+
+  const handleImportLayout = async (file: File) => {
+    try {
+      const layout = parseLayoutFile(await file.text());
+      const result = visualizerRef.current?.applyLayoutFile(layout);
+      if (!result) return;
+      const parts = [`Restored ${result.matched} contigs`];
+      if (result.placed > 0) parts.push(`${result.placed} placed near neighbours`);
+      if (result.unplaced > 0) parts.push(`${result.unplaced} with no placed neighbour`);
+      if (result.ignored > 0) parts.push(`${result.ignored} saved contigs not in this graph`);
+      if (layout.doubleMode !== settings.doubleMode) {
+        parts.push(`saved in ${layout.doubleMode ? 'double' : 'single'} mode`);
+      }
+      setLayoutFileStatus({ message: parts.join('; '), error: false });
+    } catch (e: any) {
+      setLayoutFileStatus({ message: e?.message ?? String(e), error: true });
+    }
+  };
+
+  // A status about another graph's layout would be misleading
+  React.useEffect(() => {
+    setLayoutFileStatus(null);
+  }, [data]);
+
   const handleExportPdf = () => {
-    const svgElement = document.querySelector<SVGSVGElement>('#main-graph-svg');
-    if (!svgElement) return;
-    const clone = svgElement.cloneNode(true) as SVGSVGElement;
+    const clone = visualizerRef.current?.getExportSvg();
+    if (!clone) return;
     clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
     const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
     bgRect.setAttribute('width', '100%');
@@ -236,13 +502,16 @@ const App: React.FC = () => {
           onSettingsChange={setSettings}
           onRegenerate={regenerateGraph}
           onUploadGFA={handleGFAUploadContent}
+          onUploadFailure={handleUploadFailure}
           onStartDraw={handleStartDraw}
           onCancelDraw={handleCancelDraw}
           onSearchIds={handleSearchIds}
           isOpen={isSidebarOpen}
           toggleOpen={() => setIsSidebarOpen(!isSidebarOpen)}
           selectedNodes={selectedNodes}
-      hasUploaded={!!uploadedGfaContent}
+          selectedLinks={selectedLinks}
+          tagNames={tagNames}
+      hasUploaded={!!uploadedFile}
           isParsing={isParsing}
           parsingProgress={parsingProgress}
           demoFiles={demoFiles}
@@ -250,6 +519,35 @@ const App: React.FC = () => {
           onSelectDemoPath={setSelectedDemoPath}
           onLoadSelectedDemo={handleLoadSelectedDemo}
           searchSummary={searchSummary}
+          paths={pathSummaries}
+          activePathId={activePathId}
+          onSelectPath={handleSelectPath}
+          onExportPathSequence={handleExportPathSequence}
+          groups={data.groups}
+          onSelectGroup={handleSelectGroup}
+          diagnostics={parseDiagnostics}
+          parseRejected={parseRejected}
+          strictParsing={strictParsing}
+          onStrictParsingChange={setStrictParsing}
+          onExportLayout={handleExportLayout}
+          onImportLayout={handleImportLayout}
+          layoutFileStatus={layoutFileStatus}
+          statistics={{ graph: graphStats, shown: shownStats, selection: selectionGraphStats }}
+          onFindPath={handleFindPath}
+          onClearFoundPaths={handleClearFoundPaths}
+          foundPaths={foundPaths}
+          activeFoundPath={activeFoundPath}
+          onSelectFoundPath={handleSelectFoundPath}
+          pathFinderStatus={pathFinderStatus}
+          onAnalysisSectionToggle={handleAnalysisSectionToggle}
+          bubbles={bubbles}
+          onSelectBubble={handleSelectBubble}
+          artifacts={artifacts}
+          onSelectArtifacts={handleSelectArtifacts}
+          onExportArtifacts={handleExportArtifacts}
+          repeats={repeats}
+          onSelectRepeats={handleSelectSegments}
+          scopeSummary={{ found: scopeCentres.found.length, notFound: scopeCentres.notFound, drawn: scoped.data.nodes.length }}
         />
       </div>
 
@@ -258,12 +556,20 @@ const App: React.FC = () => {
         className={`w-full h-full transition-all duration-300 ease-in-out ${isSidebarOpen ? 'pl-80' : 'pl-0'} print:pl-0 print:h-auto print:overflow-visible`}
       >
         <GraphVisualizer 
-          data={data} 
+          ref={visualizerRef}
+          data={scoped.data}
           settings={settings} 
           onSelectionChange={setSelectedNodes}
           selectedNodes={selectedNodes}
           isBrushMode={isBrushMode}
           onToggleBrushMode={() => setIsBrushMode(!isBrushMode)}
+          highlightedPath={highlightedPath}
+          onShownDataChange={setShownData}
+          bubbles={bubbles}
+          artifacts={artifacts}
+          repeats={repeats}
+          hiddenEnds={scoped.hiddenEnds}
+          sourceData={data}
         />
       </div>
 
@@ -0,0 +1,68 @@
+// Times the per-frame work of the graph view on large mock graphs.
+// Run with: npx esbuild benchmarks/layoutBenchmark.ts --bundle --platform=node --log-level=warning | node
+import * as d3 from 'd3';
+import { generateMockAssemblyGraph } from '../services/graphGenerator';
+import { buildLayout, getContigMidpoint, getContigPath, moveContig, selectContigsInRect } from '../services/layout';
+import { createRandom } from '../services/random';
+import { findContigAt } from '../services/sceneRenderer';
+import { SimulationLink, SimulationNode } from '../types';
+
+const NODE_COUNT = 20000;
+const REPEATS = 20;
+const WIDTH = 1600;
+const HEIGHT = 1000;
+
+const time = (label: string, repeats: number, fn: () => void) => {
+  fn(); // Warm-up
+  const t0 = performance.now();
+  for (let i = 0; i < repeats; i++) fn();
+  const ms = (performance.now() - t0) / repeats;
+  console.log(`${label.padEnd(50)} ${ms.toFixed(2).padStart(10)} ms`);
+  return ms;
+};
+
+const data = generateMockAssemblyGraph(NODE_COUNT, createRandom(1));
+const options = { width: WIDTH, height: HEIGHT, contigWidth: 12, getVisualLength: (bp: number) => 20 + Math.pow(bp, 0.4), seed: 1 };
+console.log(`Mock graph: ${data.nodes.length} segments, ${data.links.length} links\n`);
+
+let layout = buildLayout(data, options);
+time('build layout', 5, () => { layout = buildLayout(data, options); });
+const { layoutNodes, simNodes, simLinks } = layout;
+const identity = { k: 1, x: 0, y: 0 };
+
+// What the tick handler does for every contig and label
+time('tick: contig paths + label positions', REPEATS, () => {
+  layoutNodes.forEach(node => {
+    getContigPath(node);
+    getContigMidpoint(node);
+  });
+});
+time('brush: select contigs in a quarter of the view', REPEATS, () => {
+  selectContigsInRect(layoutNodes, identity, [[0, 0], [WIDTH / 2, HEIGHT / 2]]);
+});
+time('drag: move 1000 selected contigs', REPEATS, () => {
+  layoutNodes.slice(0, 1000).forEach(node => moveContig(node, 1, 1));
+});
+time('canvas click: hit test', REPEATS, () => {
+  findContigAt({ nodes: layoutNodes, transform: d3.zoomIdentity, contigWidth: 12 }, WIDTH / 2, HEIGHT / 2);
+});
+
+const simulation = d3.forceSimulation<SimulationNode, SimulationLink>(simNodes)
+  .force('link', d3.forceLink<SimulationNode, SimulationLink>(simLinks).id(d => d.id))
+  .force('charge', d3.forceManyBody().strength(-100))
+  .force('center', d3.forceCenter(WIDTH / 2, HEIGHT / 2))
+  .force('collide', d3.forceCollide(18).iterations(2))
+  .stop();
+time('force simulation: one tick', 5, () => { simulation.tick(); });
+
+// The lookups this replaced: two linear scans of the simulation nodes per contig, per frame.
+// Quadratic, so it is measured on a tenth of the graph.
+const small = layoutNodes.slice(0, NODE_COUNT / 10);
+// Every chain node of those contigs, whatever their chain lengths
+const smallSimNodes = small.flatMap(node => node.chain);
+time(`(old) tick with id lookups, ${small.length} contigs`, 3, () => {
+  small.forEach(node => {
+    smallSimNodes.find(n => n.id === `${node.id}_start`);
+    smallSimNodes.find(n => n.id === `${node.id}_end`);
+  });
+});
@@ -1,18 +1,32 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { GraphSettings, ColorMode, AssemblyNode } from '../types';
-import { Settings, Activity, Layers, Share2, RefreshCw, ChevronDown, ChevronRight, Eye, Move, Type, Info, Upload, FileInput, CheckCircle, Play, XCircle } from 'lucide-react';
+import { GraphSettings, GraphFileInfo, ColorMode, AssemblyNode, AssemblyLink, AssemblyPath, AssemblyGroup, GfaTag, ParseDiagnostic, DiagnosticSeverity, RendererMode, LayoutAlgorithm, GraphScope } from '../types';
+import { PathStats } from '../services/pathUtils';
+import { GraphStats } from '../services/graphStats';
+import { FoundPath, PathWeight } from '../services/pathFinder';
+import { Bubble } from '../services/bubbles';
+import { Artifact, ARTIFACT_COLORS, ARTIFACT_KINDS, ArtifactKind } from '../services/artifacts';
+import { RepeatAnalysis } from '../services/repeats';
+import { formatBasePairs, formatCoverage } from '../services/graphGenerator';
+import { detectGraphFile, GRAPH_FORMAT_LABELS } from '../services/graphFormat';
+import { formatTagValue } from '../services/tags';
+import { formatCigar } from '../services/cigar';
+import { randomSeed } from '../services/random';
+import { Settings, Activity, Layers, Share2, RefreshCw, ChevronDown, ChevronRight, Eye, Move, Type, Info, Upload, FileInput, CheckCircle, Play, XCircle, Route, Boxes, AlertTriangle, Download, Dices, BarChart3, Waypoints, X, MousePointer2, GitFork, Scissors, Copy, Crosshair } from 'lucide-react';
 
 interface ControlPanelProps {
   settings: GraphSettings;
   onSettingsChange: (newSettings: GraphSettings) => void;
   onRegenerate: () => void;
-  onUploadGFA: (content: string) => void;
+  onUploadGFA: (file: File, info: GraphFileInfo) => void;
+  onUploadFailure?: (file: File, error: unknown) => void; // The chosen file could not be read
   onStartDraw: () => void;
   onCancelDraw: () => void;
   onSearchIds: (input: string) => void;
   isOpen: boolean;
   toggleOpen: () => void;
   selectedNodes: AssemblyNode[];
+  selectedLinks?: AssemblyLink[];
+  tagNames?: string[];
   hasUploaded?: boolean;
   isParsing?: boolean;
   parsingProgress?: number;
@@ -21,19 +35,85 @@ interface ControlPanelProps {
   onSelectDemoPath?: (p: string) => void;
   onLoadSelectedDemo?: () => void;
   searchSummary?: { total: number; found: number; notFound: string[] } | null;
+  paths?: { path: AssemblyPath; stats: PathStats }[];
+  activePathId?: string | null;
+  onSelectPath?: (id: string | null) => void;
+  onExportPathSequence?: (id: string) => void;
+  groups?: AssemblyGroup[];
+  onSelectGroup?: (id: string) => void;
+  diagnostics?: ParseDiagnostic[];
+  parseRejected?: boolean;
+  strictParsing?: boolean;
+  onStrictParsingChange?: (strict: boolean) => void;
+  onExportLayout?: () => void;
+  onImportLayout?: (file: File) => void;
+  layoutFileStatus?: { message: string; error: boolean } | null;
+  // Shown and selection are null while nothing is drawn or selected
+  statistics?: { graph: GraphStats; shown: GraphStats | null; selection: GraphStats | null };
+  onFindPath?: (from: string, to: string, weight: PathWeight, count: number) => void;
+  onClearFoundPaths?: () => void;
+  foundPaths?: FoundPath[];
+  activeFoundPath?: number | null;
+  onSelectFoundPath?: (index: number | null) => void;
+  pathFinderStatus?: { message: string; error: boolean } | null;
+  // Bubbles, artifacts and repeats are computed only while their section is open (or a color or label mode
+  // needs them), so they are undefined until then
+  onAnalysisSectionToggle?: (section: AnalysisSection, open: boolean) => void;
+  bubbles?: Bubble[];
+  onSelectBubble?: (id: string) => void;
+  artifacts?: Artifact[];
+  onSelectArtifacts?: (kind: ArtifactKind | null) => void; // null selects every flagged segment
+  onExportArtifacts?: () => void;
+  repeats?: RepeatAnalysis;
+  onSelectRepeats?: (ids: string[]) => void; // Segment ids
+  // Centre segments found and not found in Around, and how many segments the scope draws
+  scopeSummary?: { found: number; notFound: string[]; drawn: number };
 }
 
+const ARTIFACT_LABELS: Record<ArtifactKind, { label: string; title: string }> = {
+  tip: { label: 'Short tips', title: 'Linked at one end only and shorter than the tip length' },
+  isolated: { label: 'Isolated', title: 'No links at all and shorter than the isolated length' },
+  'low-coverage': { label: 'Low coverage', title: "Coverage below the given fraction of the linked segments' coverage" }
+};
+
+export type AnalysisSection = 'bubbles' | 'artifacts' | 'repeats';
+
+type StatisticsScope = 'graph' | 'shown' | 'selection';
+
+const STATISTICS_SCOPES: { value: StatisticsScope; label: string; title: string }[] = [
+  { value: 'graph', label: 'Graph', title: 'Every segment in the loaded graph' },
+  { value: 'shown', label: 'Shown', title: 'Segments drawn after Minimum Nodes and Largest Components' },
+  { value: 'selection', label: 'Selection', title: 'Selected segments and the links between them' }
+];
+
+const GRAPH_SCOPES: { value: GraphScope; label: string; title: string }[] = [
+  { value: 'entire', label: 'Entire', title: 'Draw the whole graph' },
+  { value: 'steps', label: 'Steps', title: 'Draw the segments within a number of links of the Around segments' },
+  { value: 'distance', label: 'bp', title: 'Draw the segments within a number of bases of the Around segments' }
+];
+
+const LAYOUT_ALGORITHMS: { value: LayoutAlgorithm; label: string; title: string }[] = [
+  { value: 'force', label: 'Force', title: 'Force-directed physics simulation' },
+  { value: 'linear', label: 'Linear', title: 'Longest walk along a line, branches in rows beside it' },
+  { value: 'layered', label: 'Layered', title: 'Left-to-right layers following link direction, for DAG-like graphs' },
+  { value: 'circular', label: 'Circular', title: 'Contigs around a circle in walk order, for plasmid-sized components' }
+];
+
 const ControlSection: React.FC<{
   title: string;
   icon: React.ReactNode;
   children: React.ReactNode;
   defaultOpen?: boolean;
-}> = ({ title, icon, children, defaultOpen = false }) => {
+  onToggle?: (open: boolean) => void;
+}> = ({ title, icon, children, defaultOpen = false, onToggle }) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
   return (
     <div className="border-b border-slate-700/50 last:border-0">
       <button 
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => {
+          setIsOpen(!isOpen);
+          onToggle?.(!isOpen);
+        }}
         className="w-full flex items-center justify-between p-4 hover:bg-slate-800/50 transition-colors"
       >
         <div className="flex items-center gap-2 text-sm font-semibold text-slate-200">
@@ -56,12 +136,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onSettingsChange,
   onRegenerate,
   onUploadGFA,
+  onUploadFailure,
   onStartDraw,
   onCancelDraw,
   onSearchIds,
   isOpen,
   toggleOpen,
   selectedNodes,
+  selectedLinks,
+  tagNames,
   hasUploaded,
   isParsing,
   parsingProgress,
@@ -69,12 +152,50 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   selectedDemoPath,
   onSelectDemoPath,
   onLoadSelectedDemo,
-  searchSummary
+  searchSummary,
+  paths,
+  activePathId,
+  onSelectPath,
+  onExportPathSequence,
+  groups,
+  onSelectGroup,
+  diagnostics,
+  parseRejected,
+  strictParsing,
+  onStrictParsingChange,
+  onExportLayout,
+  onImportLayout,
+  layoutFileStatus,
+  statistics,
+  onFindPath,
+  onClearFoundPaths,
+  foundPaths,
+  activeFoundPath,
+  onSelectFoundPath,
+  pathFinderStatus,
+  onAnalysisSectionToggle,
+  bubbles,
+  onSelectBubble,
+  artifacts,
+  onSelectArtifacts,
+  onExportArtifacts,
+  repeats,
+  onSelectRepeats,
+  scopeSummary
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const layoutInputRef = useRef<HTMLInputElement>(null);
   const gfaInputRef = useRef<HTMLInputElement>(null);
   const [gfaUploaded, setGfaUploaded] = useState(false);
+  const [uploadedFileInfo, setUploadedFileInfo] = useState<GraphFileInfo | null>(null);
   const [searchInput, setSearchInput] = useState('');
+  const [diagnosticSeverity, setDiagnosticSeverity] = useState<DiagnosticSeverity | 'all'>('all');
+  const [diagnosticFilter, setDiagnosticFilter] = useState('');
+  const [statisticsScope, setStatisticsScope] = useState<StatisticsScope>('graph');
+  const [pathFrom, setPathFrom] = useState('');
+  const [pathTo, setPathTo] = useState('');
+  const [pathWeight, setPathWeight] = useState<PathWeight>('length');
+  const [pathCount, setPathCount] = useState(1);
 
   const handleChange = <K extends keyof GraphSettings>(key: K, value: GraphSettings[K]) => {
     onSettingsChange({ ...settings, [key]: value });
@@ -125,20 +246,23 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleGfaUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleGfaUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    // Reset selected nodes before parsing
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (text) {
-        onUploadGFA(text);
-        setGfaUploaded(true);
-      }
-    };
-    reader.readAsText(file);
     if (gfaInputRef.current) gfaInputRef.current.value = '';
+    // The file itself is streamed by the parse worker on Draw; only its start is read here.
+    // Gzip is detected from magic bytes; the extension then decides the format when it is
+    // known (.gfa, .fastg, LastGraph), otherwise the content is sniffed
+    let info: GraphFileInfo;
+    try {
+      info = await detectGraphFile(file);
+    } catch (e) {
+      onUploadFailure?.(file, e);
+      return;
+    }
+    onUploadGFA(file, info);
+    setUploadedFileInfo(info);
+    setGfaUploaded(true);
   };
 
   // Calculate Statistics for Selection
@@ -157,6 +281,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     };
   }, [selectedNodes]);
 
+  const diagnosticCounts = useMemo(() => ({
+    error: (diagnostics ?? []).filter(d => d.severity === 'error').length,
+    warning: (diagnostics ?? []).filter(d => d.severity === 'warning').length
+  }), [diagnostics]);
+
+  const visibleDiagnostics = useMemo(() => {
+    const text = diagnosticFilter.trim().toLowerCase();
+    return (diagnostics ?? []).filter(d =>
+      (diagnosticSeverity === 'all' || d.severity === diagnosticSeverity) &&
+      (!text || d.message.toLowerCase().includes(text) || d.code.includes(text) || String(d.line) === text)
+    );
+  }, [diagnostics, diagnosticSeverity, diagnosticFilter]);
+
+  const activePathSummary = (paths ?? []).find(p => p.path.id === activePathId);
+
   return (
     <div 
       className={`fixed left-0 top-0 bottom-0 bg-panel border-r border-slate-700 shadow-2xl transition-all duration-300 z-20 flex flex-col ${isOpen ? 'w-80' : 'w-0'} overflow-hidden`}
@@ -196,6 +335,40 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 <span className="text-slate-500">Coverage</span>
                 <span className="text-green-400">{selectedNodes[0].coverage.toFixed(2)}x</span>
               </div>
+              {selectedNodes[0].fragmentCount !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-slate-500">Fragments</span>
+                  <span className="text-slate-200">{selectedNodes[0].fragmentCount}</span>
+                </div>
+              )}
+              {Object.entries<GfaTag>(selectedNodes[0].tags ?? {}).map(([name, tag]) => (
+                <div key={name} className="flex justify-between gap-2">
+                  <span className="text-slate-500">{name}:{tag.type}</span>
+                  <span className="text-slate-200 truncate" title={formatTagValue(tag)}>{formatTagValue(tag)}</span>
+                </div>
+              ))}
+              {selectedLinks && selectedLinks.length > 0 && (
+                <div className="pt-2 border-t border-blue-900/30">
+                  <div className="text-xs text-slate-500 mb-1">Links ({selectedLinks.length})</div>
+                  <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 text-xs">
+                    {selectedLinks.map(link => (
+                      <div key={link.id}>
+                        <div className="text-slate-300 truncate">
+                          {link.source}{link.sourceOrientation} → {link.target}{link.targetOrientation}
+                          <span className="text-slate-500 ml-2">
+                            {link.kind === 'gap' ? `gap ${link.gapDistance ?? '?'}` : link.cigar ? formatCigar(link.cigar) : `${link.overlap}bp`}
+                          </span>
+                        </div>
+                        {link.tags && (
+                          <div className="pl-2 text-slate-500 truncate">
+                            {Object.entries<GfaTag>(link.tags).map(([name, tag]) => `${name}:${formatTagValue(tag)}`).join(' ')}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -231,12 +404,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   className="flex-1 py-2 px-4 bg-blue-700 hover:bg-blue-600 text-white text-sm rounded-lg flex items-center justify-center gap-2 transition-colors border border-blue-600"
                 >
                   <FileInput size={14} />
-                  Upload GFA File
+                  Upload Graph File
                 </button>
                 {gfaUploaded && (
                   <span className="flex items-center gap-1 text-green-400 text-xs font-semibold">
                     <CheckCircle size={14} />
-                    finished
+                    {uploadedFileInfo
+                      ? `${GRAPH_FORMAT_LABELS[uploadedFileInfo.format]}${uploadedFileInfo.gzip ? ' (gzip)' : ''}`
+                      : 'finished'}
                   </span>
                 )}
               </div>
@@ -244,7 +419,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   type="file" 
                   ref={gfaInputRef}
                   onChange={handleGfaUpload}
-                  accept=".gfa,.txt"
                   className="hidden"
                   disabled={isParsing}
               />
@@ -280,6 +454,26 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               </div>
             </div>
 
+            <div>
+              <label className="text-xs text-slate-400 mb-2 block">Parse Mode</label>
+              <div className="grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg">
+                {[false, true].map(strict => (
+                  <button
+                    key={String(strict)}
+                    onClick={() => onStrictParsingChange?.(strict)}
+                    title={strict ? 'Refuse to draw files with any error' : 'Skip bad records and draw the rest'}
+                    className={`px-2 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                      !!strictParsing === strict
+                        ? 'bg-blue-600 text-white shadow-sm'
+                        : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                    }`}
+                  >
+                    {strict ? 'Strict' : 'Lenient'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="border-t border-slate-700 pt-3">
               <label className="text-xs text-slate-400 mb-2 block">Demo Data</label>
               <div className="flex items-center gap-2">
@@ -304,6 +498,63 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </ControlSection>
 
+        {(diagnostics ?? []).length > 0 && (
+          <ControlSection
+            title={`Diagnostics (${diagnosticCounts.error} err, ${diagnosticCounts.warning} warn)`}
+            icon={<AlertTriangle size={16} />}
+            defaultOpen={true}
+          >
+            <div className="space-y-3">
+              {parseRejected && (() => {
+                // A file that couldn't be read at all fails the same in either mode
+                const failure = diagnostics!.find(d => d.code === 'read-failure');
+                return (
+                  <div className="text-xs text-red-400">
+                    {failure
+                      ? `The graph was not drawn. ${failure.message}`
+                      : 'The graph was not drawn: strict mode refuses files with errors. Fix the errors below or switch to lenient mode.'}
+                  </div>
+                );
+              })()}
+              <div className="flex items-center gap-2">
+                <select
+                  value={diagnosticSeverity}
+                  onChange={(e) => setDiagnosticSeverity(e.target.value as DiagnosticSeverity | 'all')}
+                  className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1.5"
+                >
+                  <option value="all">All</option>
+                  <option value="error">Errors</option>
+                  <option value="warning">Warnings</option>
+                </select>
+                <input
+                  type="text"
+                  value={diagnosticFilter}
+                  onChange={(e) => setDiagnosticFilter(e.target.value)}
+                  placeholder="Filter by text, code or line"
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs"
+                />
+              </div>
+              <div className="max-h-60 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                {visibleDiagnostics.map((d, i) => (
+                  <div key={i} className="px-3 py-2 text-xs font-mono">
+                    <div className="flex items-center gap-2">
+                      <span className={d.severity === 'error' ? 'text-red-400' : 'text-yellow-300'}>
+                        {d.severity === 'error' ? 'ERR' : 'WARN'}
+                      </span>
+                      <span className="text-slate-500">{d.line > 0 ? `line ${d.line}` : 'file'}</span>
+                      <span className="text-slate-600 truncate">{d.code}</span>
+                    </div>
+                    <div className="text-slate-300 mt-0.5 break-words">{d.message}</div>
+                  </div>
+                ))}
+                {visibleDiagnostics.length === 0 && (
+                  <div className="px-3 py-2 text-xs text-slate-500 italic">No matching diagnostics</div>
+                )}
+              </div>
+            </div>
+          </ControlSection>
+        )}
+
         <ControlSection title="Search" icon={<Layers size={16} />} defaultOpen={true}>
           <div className="space-y-3">
             <div className="flex items-center gap-2">
@@ -311,7 +562,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 type="text"
                 value={searchInput}
                 onChange={(e) => setSearchInput(e.target.value)}
-                placeholder="Enter Node IDs separated by , ; or space"
+                placeholder="Enter Node IDs (e.g. ctg_5 or ctg_5-) separated by , ; or space"
                 className="flex-1 px-3 py-2 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-sm"
               />
               <button
@@ -336,6 +587,524 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </ControlSection>
 
+        <ControlSection title="Scope" icon={<Crosshair size={16} />} defaultOpen={false}>
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-1 bg-slate-900 p-1 rounded-lg">
+              {GRAPH_SCOPES.map(({ value, label, title }) => (
+                <button
+                  key={value}
+                  onClick={() => handleChange('scope', value)}
+                  title={title}
+                  className={`px-1 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                    settings.scope === value
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-12 text-xs text-slate-400">Around</span>
+              <input
+                type="text"
+                value={settings.scopeNodes}
+                onChange={(e) => handleChange('scopeNodes', e.target.value)}
+                placeholder="Segment IDs (e.g. ctg_5, ctg_7)"
+                className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+              />
+              <button
+                onClick={() => handleChange('scopeNodes', Array.from(new Set(selectedNodes.map(n => n.segmentId ?? n.id))).join(', '))}
+                disabled={selectedNodes.length === 0}
+                className="px-2 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-slate-700 rounded-lg transition-colors"
+                title="Use the selected segments"
+              >
+                <MousePointer2 size={14} />
+              </button>
+            </div>
+            {settings.scope !== 'entire' && (
+              <div className="flex items-center gap-2">
+                <span className="w-12 text-xs text-slate-400">Within</span>
+                {settings.scope === 'steps' ? (
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={settings.scopeSteps}
+                    onChange={(e) => {
+                      const steps = Math.floor(Number(e.target.value));
+                      if (Number.isFinite(steps) && steps >= 0) handleChange('scopeSteps', steps);
+                    }}
+                    className="w-20 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+                    title="Links walked out from the Around segments, either way"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="1000"
+                    value={settings.scopeDistance}
+                    onChange={(e) => {
+                      const distance = Number(e.target.value);
+                      if (Number.isFinite(distance) && distance >= 0) handleChange('scopeDistance', distance);
+                    }}
+                    className="w-28 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+                    title="Bases of the segments passed through on the way from the nearest Around segment"
+                  />
+                )}
+                <span className="text-xs text-slate-400">{settings.scope === 'steps' ? 'links' : 'bp'}</span>
+              </div>
+            )}
+            {settings.scope !== 'entire' && scopeSummary && (
+              <div className="text-xs text-slate-400">
+                {scopeSummary.found > 0 ? (
+                  <span>Drawing {scopeSummary.drawn} segments around {scopeSummary.found}</span>
+                ) : (
+                  <span>Enter segments to draw around</span>
+                )}
+                {scopeSummary.notFound.length > 0 && (
+                  <span> , Not Found: {scopeSummary.notFound.join(', ')}</span>
+                )}
+              </div>
+            )}
+            <div className="flex items-center justify-between py-1">
+              <span className="text-sm text-slate-300" title="Ring contig ends that link to segments outside the scope">
+                Mark Hidden Neighbours
+              </span>
+              <button
+                onClick={() => handleChange('markHiddenNeighbours', !settings.markHiddenNeighbours)}
+                className={`w-9 h-5 rounded-full transition-colors relative ${settings.markHiddenNeighbours ? 'bg-blue-500' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.markHiddenNeighbours ? 'translate-x-4' : ''}`} />
+              </button>
+            </div>
+          </div>
+        </ControlSection>
+
+        {onFindPath && (
+          <ControlSection title="Find Path" icon={<Waypoints size={16} />} defaultOpen={false}>
+            <div className="space-y-3">
+              {([['From', pathFrom, setPathFrom], ['To', pathTo, setPathTo]] as const).map(([label, value, setValue]) => (
+                <div key={label} className="flex items-center gap-2">
+                  <span className="w-10 text-xs text-slate-400">{label}</span>
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder="Segment ID (e.g. ctg_5 or ctg_5+)"
+                    className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+                  />
+                  <button
+                    onClick={() => setValue(selectedNodes[0]?.id ?? '')}
+                    disabled={selectedNodes.length !== 1}
+                    className="px-2 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-slate-700 rounded-lg transition-colors"
+                    title="Use the selected segment"
+                  >
+                    <MousePointer2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <div className="flex-1 grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg">
+                  {(['length', 'hops'] as PathWeight[]).map(weight => (
+                    <button
+                      key={weight}
+                      onClick={() => setPathWeight(weight)}
+                      title={weight === 'length' ? 'Fewest bases' : 'Fewest segments'}
+                      className={`px-2 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                        pathWeight === weight
+                          ? 'bg-blue-600 text-white shadow-sm'
+                          : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                      }`}
+                    >
+                      {weight}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="1"
+                  value={pathCount}
+                  onChange={(e) => {
+                    const count = Math.floor(Number(e.target.value));
+                    if (Number.isFinite(count) && count >= 1 && count <= 10) setPathCount(count);
+                  }}
+                  className="w-14 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+                  title="How many paths to list: the shortest and the next best alternatives"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onFindPath(pathFrom, pathTo, pathWeight, pathCount)}
+                  className="flex-1 py-2 px-3 bg-blue-700 hover:bg-blue-600 text-white text-sm rounded-lg transition-colors border border-blue-600"
+                >
+                  Find
+                </button>
+                {(foundPaths ?? []).length > 0 && (
+                  <button
+                    onClick={onClearFoundPaths}
+                    className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg transition-colors"
+                    title="Clear the found paths"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+              {pathFinderStatus && (
+                <div className={`text-xs ${pathFinderStatus.error ? 'text-red-400' : 'text-slate-400'}`}>{pathFinderStatus.message}</div>
+              )}
+              {(foundPaths ?? []).length > 1 && (
+                <div className="max-h-32 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                  {foundPaths!.map((path, i) => (
+                    <button
+                      key={i}
+                      onClick={() => onSelectFoundPath?.(i === activeFoundPath ? null : i)}
+                      className={`w-full text-left px-3 py-2 text-xs font-mono flex items-center justify-between gap-2 transition-colors ${
+                        i === activeFoundPath ? 'bg-amber-600/20 text-amber-300' : 'text-slate-300 hover:bg-slate-800'
+                      }`}
+                    >
+                      <span>#{i + 1}</span>
+                      <span className="text-slate-500 shrink-0">
+                        {path.steps.length} seg, {formatBasePairs(path.cumulativeLength[path.cumulativeLength.length - 1])}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {activeFoundPath != null && foundPaths?.[activeFoundPath] && (
+                <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                  {foundPaths[activeFoundPath].steps.map((step, i) => (
+                    <div key={i} className="px-3 py-1.5 text-xs font-mono flex items-center justify-between gap-2 text-slate-300">
+                      <span className="truncate" title={step.segmentId}>{step.segmentId}{step.orientation}</span>
+                      <span className="text-slate-500 shrink-0">{formatBasePairs(foundPaths[activeFoundPath].cumulativeLength[i])}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ControlSection>
+        )}
+
+        {(paths ?? []).length > 0 && (
+          <ControlSection title={`Paths (${paths!.length})`} icon={<Route size={16} />} defaultOpen={false}>
+            <div className="space-y-3">
+              <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                {paths!.map(({ path, stats }) => (
+                  <button
+                    key={path.id}
+                    onClick={() => onSelectPath?.(path.id === activePathId ? null : path.id)}
+                    className={`w-full text-left px-3 py-2 text-xs font-mono flex items-center justify-between gap-2 transition-colors ${
+                      path.id === activePathId ? 'bg-amber-600/20 text-amber-300' : 'text-slate-300 hover:bg-slate-800'
+                    }`}
+                    title={path.id}
+                  >
+                    <span className="truncate">
+                      <span className="text-slate-500 mr-1">{path.kind}</span>
+                      {path.id}
+                    </span>
+                    <span className="text-slate-500 shrink-0">{stats.segmentCount} seg</span>
+                  </button>
+                ))}
+              </div>
+              {activePathSummary ? (
+                <div className="space-y-2 text-sm font-mono">
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Length</span>
+                    <span className="text-slate-200">{formatBasePairs(activePathSummary.stats.length)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Segments</span>
+                    <span className="text-slate-200">{activePathSummary.stats.segmentCount}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">Steps</span>
+                    <span className="text-slate-200">{activePathSummary.stats.stepCount}</span>
+                  </div>
+                  {activePathSummary.stats.missingLinks > 0 && (
+                    <div className="text-xs text-yellow-300">
+                      {activePathSummary.stats.missingLinks} step(s) have no matching link in the graph
+                    </div>
+                  )}
+                  <button
+                    onClick={() => onExportPathSequence?.(activePathSummary.path.id)}
+                    disabled={!activePathSummary.stats.hasSequence}
+                    title={activePathSummary.stats.hasSequence ? 'Spell the path with link overlaps trimmed' : 'Some segments on this path have no sequence'}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 text-xs font-sans rounded-lg border border-slate-700 transition-colors"
+                  >
+                    <Download size={12} />
+                    Export sequence (FASTA)
+                  </button>
+                </div>
+              ) : (
+                <div className="text-xs text-slate-400">Pick a path to highlight it on the graph</div>
+              )}
+            </div>
+          </ControlSection>
+        )}
+
+        {onSelectArtifacts && (
+          <ControlSection
+            title={artifacts ? `Artifacts (${artifacts.length})` : 'Artifacts'}
+            icon={<Scissors size={16} />}
+            defaultOpen={false}
+            onToggle={(open) => onAnalysisSectionToggle?.('artifacts', open)}
+          >
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['tipMaxLength', 'Tip bp', 1],
+                ['isolatedMaxLength', 'Isolated bp', 1],
+                ['lowCoverageRatio', 'Cov ratio', 0.05]
+              ] as const).map(([key, label, step]) => (
+                <label key={key} className="text-[10px] text-slate-400">
+                  {label}
+                  <input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (Number.isFinite(value) && value >= 0) handleChange(key, value);
+                    }}
+                    className="w-full mt-1 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="rounded-lg border border-slate-700 divide-y divide-slate-800">
+              {ARTIFACT_KINDS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => onSelectArtifacts?.(kind)}
+                  className="w-full text-left px-3 py-2 text-xs flex items-center justify-between gap-2 text-slate-300 hover:bg-slate-800 transition-colors"
+                  title={ARTIFACT_LABELS[kind].title}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: ARTIFACT_COLORS[kind] }} />
+                    {ARTIFACT_LABELS[kind].label}
+                  </span>
+                  <span className="font-mono text-slate-500">{(artifacts ?? []).filter(a => a.kinds.includes(kind)).length}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onSelectArtifacts?.(null)}
+                disabled={(artifacts ?? []).length === 0}
+                className="flex-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-slate-700 rounded-lg text-xs transition-colors"
+              >
+                Select all
+              </button>
+              <button
+                onClick={onExportArtifacts}
+                disabled={(artifacts ?? []).length === 0}
+                className="flex-1 flex items-center justify-center gap-2 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-slate-700 rounded-lg text-xs transition-colors"
+                title="Save the flagged segment ids, one per line"
+              >
+                <Download size={14} />
+                Export IDs
+              </button>
+            </div>
+            <div className="text-xs text-slate-400">Click a category to select its segments; the ARTIFACT color scheme shows them on the graph</div>
+          </ControlSection>
+        )}
+
+        {onSelectRepeats && (
+          <ControlSection
+            title={repeats ? `Repeats (${repeats.candidates.length})` : 'Repeats'}
+            icon={<Copy size={16} />}
+            defaultOpen={false}
+            onToggle={(open) => onAnalysisSectionToggle?.('repeats', open)}
+          >
+            {repeats && (
+              <>
+                <div className="space-y-2 text-sm font-mono">
+                  <div className="flex justify-between">
+                    <span className="text-slate-500" title="Length-weighted mode of segment coverage">Single-copy</span>
+                    <span className="text-green-400">{repeats.singleCopyCoverage > 0 ? formatCoverage(repeats.singleCopyCoverage) : 'n/a'}</span>
+                  </div>
+                </div>
+                {repeats.candidates.length > 0 ? (
+                  <>
+                    <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                      {repeats.candidates.map(id => {
+                        const segment = repeats.segments.get(id)!;
+                        return (
+                          <button
+                            key={id}
+                            onClick={() => onSelectRepeats?.([id])}
+                            className="w-full text-left px-3 py-2 text-xs font-mono flex items-center justify-between gap-2 text-slate-300 hover:bg-slate-800 transition-colors"
+                            title={`${segment.startLinks} links at its start, ${segment.endLinks} at its end${segment.branching ? ': branching, as a collapsed repeat joins each place it occurs' : ''}`}
+                          >
+                            <span className="truncate">
+                              {id}
+                              <span className={`ml-1 ${segment.branching ? 'text-amber-400' : 'text-slate-600'}`}>⑂{segment.startLinks}/{segment.endLinks}</span>
+                            </span>
+                            <span className="text-slate-500 shrink-0">×{segment.copyNumber} ({segment.ratio.toFixed(1)})</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <button
+                      onClick={() => onSelectRepeats?.(repeats.candidates)}
+                      className="w-full px-2 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-xs transition-colors"
+                    >
+                      Select all repeats
+                    </button>
+                  </>
+                ) : (
+                  <div className="text-xs text-slate-400">No segment is covered at twice the single-copy level or more</div>
+                )}
+              </>
+            )}
+          </ControlSection>
+        )}
+
+        {onSelectBubble && (
+          <ControlSection
+            title={bubbles ? `Bubbles (${bubbles.length})` : 'Bubbles'}
+            icon={<GitFork size={16} />}
+            defaultOpen={false}
+            onToggle={(open) => onAnalysisSectionToggle?.('bubbles', open)}
+          >
+            {bubbles && bubbles.length > 0 && (
+              <>
+                <div className="max-h-64 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+                  {bubbles.map(bubble => (
+                    <button
+                      key={bubble.id}
+                      onClick={() => onSelectBubble?.(bubble.id)}
+                      className="w-full text-left px-3 py-2 text-xs font-mono text-slate-300 hover:bg-slate-800 transition-colors"
+                      title={bubble.kind === 'simple' ? 'Simple bubble' : 'Superbubble'}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          {bubble.entrance.segmentId}{bubble.entrance.orientation} → {bubble.exit.segmentId}{bubble.exit.orientation}
+                        </span>
+                        <span className="text-slate-500 shrink-0">{bubble.kind === 'simple' ? 'simple' : 'super'}</span>
+                      </div>
+                      {bubble.branches.map((branch, i) => (
+                        <div key={i} className="flex justify-between gap-2 text-[10px] text-slate-500">
+                          <span className="truncate">{branch.segmentIds.length > 0 ? branch.segmentIds.join(' ') : '(direct link)'}</span>
+                          <span className="shrink-0">{formatBasePairs(branch.length)} · {formatCoverage(branch.coverage)}</span>
+                        </div>
+                      ))}
+                      {bubble.branchesTruncated && (
+                        <div className="text-[10px] text-slate-500 italic">More branches not listed</div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-xs text-slate-400">Click a bubble to select it and zoom to it</div>
+              </>
+            )}
+            {bubbles && bubbles.length === 0 && (
+              <div className="text-xs text-slate-400">No bubbles in this graph</div>
+            )}
+          </ControlSection>
+        )}
+
+        {(groups ?? []).length > 0 && (
+          <ControlSection title={`Groups (${groups!.length})`} icon={<Boxes size={16} />} defaultOpen={false}>
+            <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-lg border border-slate-700 divide-y divide-slate-800">
+              {groups!.map(group => (
+                <button
+                  key={group.id}
+                  onClick={() => onSelectGroup?.(group.id)}
+                  className="w-full text-left px-3 py-2 text-xs font-mono flex items-center justify-between gap-2 text-slate-300 hover:bg-slate-800 transition-colors"
+                  title={group.ordered ? 'Ordered group (O)' : 'Unordered group (U)'}
+                >
+                  <span className="truncate">
+                    <span className="text-slate-500 mr-1">{group.ordered ? 'O' : 'U'}</span>
+                    {group.id}
+                  </span>
+                  <span className="text-slate-500 shrink-0">{group.segmentIds.length} seg</span>
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-slate-400">Click a group to select its segments</div>
+          </ControlSection>
+        )}
+
+        {statistics && (
+          <ControlSection title="Statistics" icon={<BarChart3 size={16} />} defaultOpen={false}>
+            <div className="grid grid-cols-3 gap-1 bg-slate-900 p-1 rounded-lg">
+              {STATISTICS_SCOPES.map(({ value, label, title }) => (
+                <button
+                  key={value}
+                  onClick={() => setStatisticsScope(value)}
+                  title={title}
+                  className={`px-1 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                    statisticsScope === value
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {(() => {
+              const stats = statistics[statisticsScope];
+              if (!stats) {
+                return (
+                  <div className="text-xs text-slate-400">
+                    {statisticsScope === 'selection' ? 'Select segments to see their statistics' : 'Nothing is drawn'}
+                  </div>
+                );
+              }
+              const rows: [string, string][] = [
+                ['Segments', stats.segmentCount.toLocaleString()],
+                ['Links', stats.linkCount.toLocaleString()],
+                ['Total Len', formatBasePairs(stats.totalLength)],
+                ['N50', formatBasePairs(stats.n50)],
+                ['N90', formatBasePairs(stats.n90)],
+                ['L50', stats.l50.toLocaleString()],
+                ['Longest', formatBasePairs(stats.longest)],
+                ['Components', stats.componentCount.toLocaleString()],
+                ['Dead Ends', stats.deadEnds.toLocaleString()],
+                ['No Links', `${stats.unlinkedPercent.toFixed(1)}%`]
+              ];
+              const maxBin = Math.max(1, ...stats.coverageHistogram.map(b => b.length));
+              return (
+                <div className="space-y-3">
+                  <div className="space-y-1 text-sm font-mono">
+                    {rows.map(([label, value]) => (
+                      <div key={label} className="flex justify-between">
+                        <span className="text-slate-500">{label}</span>
+                        <span className="text-slate-200">{value}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {stats.coverageHistogram.length > 0 && (
+                    <div>
+                      <label className="text-xs text-slate-400 mb-2 block">Coverage (bp per bin)</label>
+                      <div className="flex items-end gap-px h-16 bg-slate-900 rounded p-1">
+                        {stats.coverageHistogram.map((bin, i) => (
+                          <div
+                            key={i}
+                            className="flex-1 bg-green-500/70 hover:bg-green-400 rounded-sm"
+                            style={{ height: `${(bin.length / maxBin) * 100}%` }}
+                            title={`${formatCoverage(bin.min)}–${i === stats.coverageHistogram.length - 1 ? '' : formatCoverage(bin.max)}: ${bin.segments} segments, ${formatBasePairs(bin.length)}`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-[10px] text-slate-500 font-mono mt-1">
+                        <span>{formatCoverage(0)}</span>
+                        <span>{formatCoverage(stats.coverageHistogram[stats.coverageHistogram.length - 1].max)}+</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })()}
+          </ControlSection>
+        )}
+
         <ControlSection title="Node labels" icon={<Type size={16} />} defaultOpen={false}>
            {/* ... existing label controls ... */}
            <div className="flex gap-3">
@@ -397,9 +1166,44 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 />
                 CSV data
               </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={settings.labelContent.tag}
+                  onChange={() => handleLabelContentChange('tag')}
+                  disabled={!tagNames || tagNames.length === 0}
+                  className="rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-offset-slate-900"
+                />
+                Tag
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={settings.labelContent.copyNumber}
+                  onChange={() => handleLabelContentChange('copyNumber')}
+                  className="rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-offset-slate-900"
+                />
+                Copy number
+              </label>
             </div>
           </div>
 
+          {settings.labelContent.tag && tagNames && tagNames.length > 0 && (
+            <div className="ml-7 mt-3 flex items-center gap-2">
+              <span className="text-xs text-slate-400">Tag</span>
+              <select
+                value={settings.labelTag}
+                onChange={(e) => handleChange('labelTag', e.target.value)}
+                className="flex-1 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1.5"
+              >
+                <option value="">Choose a tag…</option>
+                {tagNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {settings.labelContent.csv && (
             <div className="ml-7 mt-3 mb-1 p-2 bg-slate-800/50 rounded border border-slate-700">
               <div className="flex items-center justify-between gap-2">
@@ -444,6 +1248,25 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </ControlSection>
 
         <ControlSection title="Layout Physics" icon={<Move size={16} />} defaultOpen={false}>
+          <div>
+            <label className="text-xs text-slate-400 mb-2 block">Layout</label>
+            <div className="grid grid-cols-4 gap-1 bg-slate-900 p-1 rounded-lg">
+              {LAYOUT_ALGORITHMS.map(({ value, label, title }) => (
+                <button
+                  key={value}
+                  onClick={() => handleChange('layoutAlgorithm', value)}
+                  title={title}
+                  className={`px-1 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                    settings.layoutAlgorithm === value
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           <div>
             <label className="flex justify-between text-xs text-slate-400 mb-2">
               Contig Width
@@ -487,6 +1310,35 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
             />
           </div>
+          <div>
+            <label className="flex justify-between text-xs text-slate-400 mb-2">
+              Largest Components
+              <span>{settings.maxComponents > 0 ? settings.maxComponents : 'All'}</span>
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={settings.maxComponents}
+              onChange={(e) => {
+                const count = Math.floor(Number(e.target.value));
+                if (Number.isFinite(count) && count >= 0) handleChange('maxComponents', count);
+              }}
+              className="w-full px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+              title="Draw only this many of the largest connected components (0 draws all)"
+            />
+          </div>
+          <div className="flex items-center justify-between py-1">
+            <span className="text-sm text-slate-300" title="Lay out each connected component on its own and arrange them in a grid, largest first">
+              Pack Components
+            </span>
+            <button
+              onClick={() => handleChange('packComponents', !settings.packComponents)}
+              className={`w-9 h-5 rounded-full transition-colors relative ${settings.packComponents ? 'bg-blue-500' : 'bg-slate-700'}`}
+            >
+              <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.packComponents ? 'translate-x-4' : ''}`} />
+            </button>
+          </div>
           <div>
             <label className="flex justify-between text-xs text-slate-400 mb-2">
               Link Distance
@@ -515,6 +1367,67 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
             />
           </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-2">Layout Seed</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={settings.layoutSeed}
+                onChange={(e) => {
+                  const seed = Math.floor(Number(e.target.value));
+                  if (Number.isFinite(seed) && seed >= 0) handleChange('layoutSeed', seed);
+                }}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-slate-800 text-slate-200 border border-slate-700 rounded-lg text-xs font-mono"
+              />
+              <button
+                onClick={() => handleChange('layoutSeed', randomSeed())}
+                className="px-2 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg transition-colors"
+                title="New random layout"
+              >
+                <Dices size={14} />
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">Same seed and settings give the same layout</p>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-2">Layout File</label>
+            <div className="flex gap-2">
+              <button
+                onClick={onExportLayout}
+                className="flex-1 flex items-center justify-center gap-2 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-xs transition-colors"
+                title="Save contig positions as JSON"
+              >
+                <Download size={14} />
+                Save
+              </button>
+              <button
+                onClick={() => layoutInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-2 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-xs transition-colors"
+                title="Restore contig positions from a saved layout"
+              >
+                <Upload size={14} />
+                Load
+              </button>
+              <input
+                type="file"
+                ref={layoutInputRef}
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportLayout?.(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {layoutFileStatus && (
+              <p className={`text-[10px] mt-1 ${layoutFileStatus.error ? 'text-red-400' : 'text-slate-500'}`}>
+                {layoutFileStatus.message}
+              </p>
+            )}
+          </div>
         </ControlSection>
 
         <ControlSection title="Visualization" icon={<Eye size={16} />} defaultOpen={true}>
@@ -522,7 +1435,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           <div>
             <label className="text-xs text-slate-400 mb-2 block">Color Scheme</label>
             <div className="grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg">
-              {[ColorMode.RANDOM, ColorMode.LENGTH, ColorMode.DEPTH, ColorMode.UNIFORM].map((mode) => (
+              {[ColorMode.RANDOM, ColorMode.LENGTH, ColorMode.DEPTH, ColorMode.UNIFORM, ColorMode.TAG, ColorMode.BUBBLE, ColorMode.ARTIFACT, ColorMode.COPY_NUMBER].map((mode) => (
                 <button
                   key={mode}
                   onClick={() => handleChange('colorMode', mode)}
@@ -531,6 +1444,38 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                       ? 'bg-blue-600 text-white shadow-sm' 
                       : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
                   }`}
+                >
+                  {mode.replace('_', ' ')}
+                </button>
+              ))}
+            </div>
+            {settings.colorMode === ColorMode.TAG && (
+              <select
+                value={settings.colorTag}
+                onChange={(e) => handleChange('colorTag', e.target.value)}
+                className="w-full mt-2 bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1.5"
+              >
+                <option value="">{tagNames && tagNames.length > 0 ? 'Choose a tag…' : 'No tags in this graph'}</option>
+                {(tagNames ?? []).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400 mb-2 block">Renderer</label>
+            <div className="grid grid-cols-3 gap-1 bg-slate-900 p-1 rounded-lg">
+              {(['auto', 'svg', 'canvas'] as RendererMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => handleChange('renderer', mode)}
+                  title={mode === 'auto' ? 'SVG for small graphs, canvas for large ones' : undefined}
+                  className={`px-2 py-1.5 text-[10px] uppercase font-bold tracking-wide rounded-md transition-colors ${
+                    settings.renderer === mode
+                      ? 'bg-blue-600 text-white shadow-sm'
+                      : 'text-slate-500 hover:bg-slate-800 hover:text-slate-300'
+                  }`}
                 >
                   {mode}
                 </button>
@@ -558,6 +1503,68 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
             </button>
           </div>
 
+          <div className="flex items-center justify-between py-1">
+            <span className="text-sm text-slate-300" title="Link thickness follows the overlap length">Overlap Link Width</span>
+            <button
+              onClick={() => handleChange('linkWidthByOverlap', !settings.linkWidthByOverlap)}
+              className={`w-9 h-5 rounded-full transition-colors relative ${settings.linkWidthByOverlap ? 'bg-blue-500' : 'bg-slate-700'}`}
+            >
+              <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.linkWidthByOverlap ? 'translate-x-4' : ''}`} />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between py-1">
+            <span className="text-sm text-slate-300" title="Single: one node per segment. Double: both strands (N+ and N-) as separate nodes">
+              Double Strand
+            </span>
+            <button
+              onClick={() => handleChange('doubleMode', !settings.doubleMode)}
+              className={`w-9 h-5 rounded-full transition-colors relative ${settings.doubleMode ? 'bg-blue-500' : 'bg-slate-700'}`}
+            >
+              <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.doubleMode ? 'translate-x-4' : ''}`} />
+            </button>
+          </div>
+
+          <div className="border-t border-slate-700 mt-3 pt-3 space-y-3">
+            <div>
+              <label className="flex justify-between text-xs text-slate-400 mb-2" title="Labels are hidden on contigs drawn shorter than this on screen">
+                Hide Labels Below
+                <span>{settings.labelMinContigPx} px</span>
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                value={settings.labelMinContigPx}
+                onChange={(e) => handleChange('labelMinContigPx', Number(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div>
+              <label className="flex justify-between text-xs text-slate-400 mb-2" title="Contigs drawn shorter than this on screen become dots">
+                Dots Below
+                <span>{settings.dotMaxContigPx} px</span>
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="50"
+                value={settings.dotMaxContigPx}
+                onChange={(e) => handleChange('dotMaxContigPx', Number(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div className="flex items-center justify-between py-1">
+              <span className="text-sm text-slate-300" title="Skip drawing contigs and links outside the visible area">Cull Off-screen</span>
+              <button
+                onClick={() => handleChange('cullOffscreen', !settings.cullOffscreen)}
+                className={`w-9 h-5 rounded-full transition-colors relative ${settings.cullOffscreen ? 'bg-blue-500' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${settings.cullOffscreen ? 'translate-x-4' : ''}`} />
+              </button>
+            </div>
+          </div>
+
           <div className="border-t border-slate-700 mt-3 pt-3">
             <label className="flex items-center justify-between cursor-pointer text-sm text-slate-300">
               <span>Background light</span>
@@ -1,7 +1,21 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
 import * as d3 from 'd3';
-import { GraphData, GraphSettings, AssemblyNode, AssemblyLink, ColorMode, SimulationNode, SimulationLink } from '../types';
+import { GraphData, GraphSettings, AssemblyNode, AssemblyLink, AssemblyPath, PathStep, ColorMode, SimulationNode, SimulationLink, LayoutNode } from '../types';
 import { formatBasePairs, formatCoverage } from '../services/graphGenerator';
+import { getEntryEnd, getExitEnd, getStrandNodeId, toDoubleStrandGraph } from '../services/orientation';
+import { formatTagValue, getNumericTagValue } from '../services/tags';
+import { CanvasScene, CONTIG_ARROW_COLOR, drawCanvasScene, findContigAt, getContigArrowPath, getEdgePath, getHiddenNeighbourRadius, HIDDEN_NEIGHBOUR_COLOR, sceneToSvg } from '../services/sceneRenderer';
+import { createLayoutSimulation, LayoutSimulation } from '../services/layoutClient';
+import { LayoutForces } from '../services/layoutTransfer';
+import { applyLayoutFile, createLayoutFile, LayoutFile, LayoutImportResult } from '../services/layoutFile';
+import { createRandom } from '../services/random';
+import { findConnectedComponents } from '../services/components';
+import { applyStaticLayout } from '../services/layoutAlgorithms';
+import { Bubble } from '../services/bubbles';
+import { Artifact, ARTIFACT_COLORS } from '../services/artifacts';
+import { RepeatAnalysis } from '../services/repeats';
+import { ContigDetail, DetailThresholds, getContigDetail, getContigDotPath, getViewport, isEdgeVisible, Viewport } from '../services/levelOfDetail';
+import { buildLayout, getContigMidpoint, getContigPath, indexSimNodes, moveContig, pinContig, placeBesideNeighbours, selectContigsInRect, toAssemblyNode, unpinContig } from '../services/layout';
 import { Plus, Minus, Maximize, BoxSelect, MousePointer2 } from 'lucide-react';
 
 interface GraphVisualizerProps {
@@ -11,66 +25,122 @@ interface GraphVisualizerProps {
   selectedNodes: AssemblyNode[];
   isBrushMode: boolean;
   onToggleBrushMode?: () => void;
+  highlightedPath?: AssemblyPath | null;
+  // The part of the graph that is drawn, after Minimum Nodes and Largest Components (strand nodes in double mode)
+  onShownDataChange?: (data: GraphData) => void;
+  bubbles?: Bubble[]; // For ColorMode.BUBBLE
+  artifacts?: Artifact[]; // For ColorMode.ARTIFACT
+  repeats?: RepeatAnalysis; // For ColorMode.COPY_NUMBER and copy-number labels
+  // Segment ends ("ctg_5_end") linked to segments left out of the scope, marked when markHiddenNeighbours is on
+  hiddenEnds?: Set<string>;
+  // The whole graph `data` was scoped from; positions carry over while it stays the same
+  sourceData?: GraphData;
 }
 
-const GraphVisualizer: React.FC<GraphVisualizerProps> = ({ 
+export interface GraphVisualizerHandle {
+  // Standalone copy of what is on screen, whichever backend drew it
+  getExportSvg: () => SVGSVGElement | null;
+  // Current contig positions, for saving
+  getLayoutFile: () => LayoutFile | null;
+  // Moves contigs to saved positions and stops the simulation so the picture stays as saved
+  applyLayoutFile: (file: LayoutFile) => LayoutImportResult | null;
+  // Pans and zooms so the given drawn nodes fill the view
+  zoomToNodes: (ids: string[]) => void;
+}
+
+const getLabelTransform = (node: LayoutNode) => {
+  const mid = getContigMidpoint(node);
+  return mid ? `translate(${mid[0]}, ${mid[1]})` : "translate(0,0)";
+};
+
+// Screen pixels drawn beyond each edge of the view, so contigs don't pop in as they are panned into sight
+const VIEWPORT_MARGIN = 50;
+
+// Above this many contigs (in auto mode) the graph is drawn on a canvas instead of as SVG elements
+const CANVAS_NODE_THRESHOLD = 3000;
+
+// Selection and path highlight as seen by the canvas backend, which redraws from it every frame
+interface CanvasHighlight {
+  isHighlighted: (id: string) => boolean;
+  dimOthers: boolean;
+  isPathEdge: (edge: SimulationLink) => boolean;
+  pathActive: boolean;
+}
+
+const GraphVisualizer = forwardRef<GraphVisualizerHandle, GraphVisualizerProps>(({ 
   data, 
   settings, 
   onSelectionChange, 
   selectedNodes,
   isBrushMode,
-  onToggleBrushMode
-}) => {
+  onToggleBrushMode,
+  highlightedPath,
+  onShownDataChange,
+  bubbles,
+  artifacts,
+  repeats,
+  hiddenEnds,
+  sourceData
+}, ref) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // Refs to store simulation state to prevent re-initialization on simple prop changes
-  const simulationRef = useRef<d3.Simulation<SimulationNode, SimulationLink> | null>(null);
+  const simulationRef = useRef<LayoutSimulation | null>(null);
   const simNodesRef = useRef<SimulationNode[]>([]);
   const simLinksRef = useRef<SimulationLink[]>([]);
-  const nodeLookup = useRef<Map<string, AssemblyNode>>(new Map());
+  // Contigs with direct references to their end nodes, rebuilt with the simulation
+  const layoutNodesRef = useRef<LayoutNode[]>([]);
+  const layoutLookup = useRef<Map<string, LayoutNode>>(new Map());
+  // Graph and seed the current positions grew from; a new graph or seed starts over from the seed
+  const layoutSourceRef = useRef<{ data: GraphData; seed: number } | null>(null);
+  // Set by the init effect so the parameter and freeze effects of the same commit leave its first run alone
+  const freshSimulationRef = useRef<LayoutSimulation | null>(null);
+  // Canvas backend state: redraw hook (null while SVG renders), current zoom and highlight
+  const drawCanvasRef = useRef<(() => void) | null>(null);
+  // Redraws positions with whichever backend is active; the same function the simulation calls every frame
+  const renderFrameRef = useRef<(() => void) | null>(null);
+  const transformRef = useRef(d3.zoomIdentity);
+  const canvasHighlightRef = useRef<CanvasHighlight>({ isHighlighted: () => false, dimOthers: false, isPathEdge: () => false, pathActive: false });
   
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const [transform, setTransform] = useState(d3.zoomIdentity);
-  const filteredData = useMemo<GraphData>(() => {
+  // Set when the layout worker fails; the drawing then stays where the layout stopped
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  // In double mode each strand is its own node, so everything downstream works on the expanded graph
+  const displayData = useMemo<GraphData>(() => {
+    return settings.doubleMode ? toDoubleStrandGraph(data) : data;
+  }, [data, settings.doubleMode]);
+  const components = useMemo(() => findConnectedComponents(displayData), [displayData]);
+  // Components that are drawn: at least Minimum Nodes contigs, and among the N largest when capped
+  const visibleComponents = useMemo(() => {
     const t = settings.minNodesToRender ?? 0;
-    if (!t || t <= 0) return data;
-    const adj = new Map<string, Set<string>>();
-    data.nodes.forEach(n => adj.set(n.id, new Set()));
-    data.links.forEach(l => {
-      adj.get(l.source)?.add(l.target);
-      adj.get(l.target)?.add(l.source);
-    });
-    const visited = new Set<string>();
-    const keep = new Set<string>();
-    for (const n of data.nodes) {
-      if (visited.has(n.id)) continue;
-      const queue: string[] = [n.id];
-      const comp: string[] = [];
-      visited.add(n.id);
-      while (queue.length) {
-        const u = queue.pop() as string;
-        comp.push(u);
-        const neighbors = adj.get(u) || new Set<string>();
-        neighbors.forEach(v => {
-          if (!visited.has(v)) { visited.add(v); queue.push(v); }
-        });
-      }
-      if (comp.length >= t) comp.forEach(id => keep.add(id));
-    }
-    const nodes = data.nodes.filter(n => keep.has(n.id));
-    const links = data.links.filter(l => keep.has(l.source) && keep.has(l.target));
-    return { nodes, links };
-  }, [data, settings.minNodesToRender]);
+    const kept = t > 0 ? components.filter(c => c.nodeIds.length >= t) : components;
+    return settings.maxComponents > 0 ? kept.slice(0, settings.maxComponents) : kept;
+  }, [components, settings.minNodesToRender, settings.maxComponents]);
+  const filteredData = useMemo<GraphData>(() => {
+    if (visibleComponents.length === components.length) return displayData;
+    const keep = new Set<string>(visibleComponents.flatMap(c => c.nodeIds));
+    const nodes = displayData.nodes.filter(n => keep.has(n.id));
+    const links = displayData.links.filter(l => keep.has(l.source) && keep.has(l.target));
+    return { ...displayData, nodes, links };
+  }, [displayData, components, visibleComponents]);
+  useEffect(() => {
+    onShownDataChange?.(filteredData);
+  }, [filteredData, onShownDataChange]);
   const hiddenByMinNodes = (settings.minNodesToRender ?? 0) > 0 && filteredData.nodes.length === 0;
+  const emptyScope = settings.scope !== 'entire' && data.nodes.length === 0;
+  const useCanvas = settings.renderer === 'canvas'
+    || (settings.renderer === 'auto' && filteredData.nodes.length > CANVAS_NODE_THRESHOLD);
 
   // Compute colors for RANDOM mode
   const randomColorMap = useMemo(() => {
     if (settings.colorMode !== ColorMode.RANDOM) return new Map<string, string>();
 
     const adjacency = new Map<string, Set<string>>();
-    data.nodes.forEach(n => adjacency.set(n.id, new Set()));
+    displayData.nodes.forEach(n => adjacency.set(n.id, new Set()));
     
-    data.links.forEach(l => {
+    displayData.links.forEach(l => {
       const sourceId = typeof l.source === 'object' ? (l.source as any).id : l.source;
       const targetId = typeof l.target === 'object' ? (l.target as any).id : l.target;
       adjacency.get(sourceId)?.add(targetId);
@@ -80,7 +150,7 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     const colors = new Map<string, string>();
     const palette = d3.schemeTableau10; 
 
-    const sortedNodes = [...data.nodes].sort((a, b) => {
+    const sortedNodes = [...displayData.nodes].sort((a, b) => {
       const degA = adjacency.get(a.id)?.size || 0;
       const degB = adjacency.get(b.id)?.size || 0;
       return degB - degA;
@@ -105,12 +175,88 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     });
 
     return colors;
-  }, [data, settings.colorMode]);
+  }, [displayData, settings.colorMode]);
+
+  // Compute colors for TAG mode: numeric tags get a continuous scale, anything else a categorical palette
+  const tagColorScale = useMemo(() => {
+    if (settings.colorMode !== ColorMode.TAG || !settings.colorTag) return null;
+
+    const tags = displayData.nodes.map(n => n.tags?.[settings.colorTag]).filter(t => t !== undefined);
+    const numeric = tags.map(getNumericTagValue).filter((v): v is number => v !== null);
+    if (numeric.length > 0 && numeric.length === tags.length) {
+      const [min, max] = d3.extent(numeric) as [number, number];
+      const scale = d3.scaleSequential(d3.interpolateViridis).domain(min === max ? [min - 1, max + 1] : [min, max]);
+      return (node: AssemblyNode) => {
+        const value = getNumericTagValue(node.tags?.[settings.colorTag]);
+        return value === null ? '#ccc' : scale(value);
+      };
+    }
+    const scale = d3.scaleOrdinal<string, string>(d3.schemeTableau10);
+    return (node: AssemblyNode) => {
+      const tag = node.tags?.[settings.colorTag];
+      return tag ? scale(formatTagValue(tag)) : '#ccc';
+    };
+  }, [displayData, settings.colorMode, settings.colorTag]);
+
+  // Colors for BUBBLE mode: segments inside a bubble take that bubble's color, entrances and exits are white
+  const bubbleColors = useMemo(() => {
+    if (settings.colorMode !== ColorMode.BUBBLE) return null;
+    const scale = d3.scaleOrdinal<string, string>(d3.schemeTableau10);
+    const colors = new Map<string, string>();
+    (bubbles ?? []).forEach(bubble => {
+      colors.set(bubble.entrance.segmentId, '#f8fafc');
+      colors.set(bubble.exit.segmentId, '#f8fafc');
+    });
+    (bubbles ?? []).forEach(bubble => bubble.segmentIds.forEach(id => colors.set(id, scale(bubble.id))));
+    return colors;
+  }, [bubbles, settings.colorMode]);
+
+  // Colors for ARTIFACT mode, by the kind each flagged segment was flagged for
+  const artifactColors = useMemo(() => {
+    if (settings.colorMode !== ColorMode.ARTIFACT) return null;
+    return new Map((artifacts ?? []).map(a => [a.segmentId, ARTIFACT_COLORS[a.kinds[0]]]));
+  }, [artifacts, settings.colorMode]);
+
+  // Edge widths for overlap-scaled links: square-root scale so a few long overlaps don't flatten the rest
+  const overlapWidthScale = useMemo(() => {
+    if (!settings.linkWidthByOverlap) return null;
+    const maxOverlap = d3.max(filteredData.links, l => l.overlap) ?? 0;
+    return d3.scaleSqrt().domain([0, Math.max(1, maxOverlap)]).range([1, 6]).clamp(true);
+  }, [filteredData, settings.linkWidthByOverlap]);
+
+  const getEdgeWidth = (link: SimulationLink) => {
+    return overlapWidthScale ? overlapWidthScale(link.overlap ?? 0) : 2;
+  };
 
   const getVisualLength = (bp: number) => {
     return 20 + Math.pow(bp, 0.4) * settings.nodeLengthScale * 20;
   };
 
+  // Physics settings for the layout worker: a contig's backbones share its drawn length, edges get the Link Distance
+  const getLayoutForces = (links: SimulationLink[]): LayoutForces => ({
+    chargeStrength: settings.chargeStrength,
+    collideRadius: settings.nodeWidthScale * 1.5,
+    linkDistances: Float64Array.from(links, d => {
+      if (d.type === 'backbone' && d.parentId) {
+        const node = layoutLookup.current.get(d.parentId);
+        return node ? getVisualLength(node.length) / (node.chain.length - 1) : 20;
+      }
+      return settings.linkDistance;
+    })
+  });
+
+  // Linear, layered and circular layouts place contigs directly; the simulation is never started for them
+  const physicsOn = settings.layoutAlgorithm === 'force';
+  const runStaticLayout = () => {
+    if (settings.layoutAlgorithm === 'force') return;
+    applyStaticLayout(settings.layoutAlgorithm, layoutLookup.current, simLinksRef.current.filter(l => l.type === 'edge'), visibleComponents, {
+      gap: Math.max(settings.linkDistance, 20),
+      contigWidth: settings.nodeWidthScale,
+      center: [window.innerWidth / 2, window.innerHeight / 2],
+      getVisualLength
+    });
+  };
+
   const getNodeColor = (node: AssemblyNode) => {
     if (settings.colorMode === ColorMode.DEPTH) {
       return d3.interpolateSpectral(Math.min(1, Math.max(0, 1 - (node.coverage / 100))));
@@ -118,6 +264,16 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
       return d3.interpolateViridis(Math.min(1, node.length / 50000));
     } else if (settings.colorMode === ColorMode.RANDOM) {
       return randomColorMap.get(node.id) || '#ccc';
+    } else if (settings.colorMode === ColorMode.TAG) {
+      return tagColorScale ? tagColorScale(node) : '#ccc';
+    } else if (settings.colorMode === ColorMode.BUBBLE) {
+      return bubbleColors?.get(node.segmentId ?? node.id) ?? '#64748b';
+    } else if (settings.colorMode === ColorMode.ARTIFACT) {
+      return artifactColors?.get(node.segmentId ?? node.id) ?? '#64748b';
+    } else if (settings.colorMode === ColorMode.COPY_NUMBER) {
+      // Single-copy segments stay muted; repeats warm up from 2 copies to 8 and above
+      const copyNumber = repeats?.segments.get(node.segmentId ?? node.id)?.copyNumber ?? 1;
+      return copyNumber < 2 ? '#64748b' : d3.interpolateOrRd(0.4 + 0.6 * Math.min(1, (copyNumber - 2) / 6));
     } else {
       return '#60a5fa'; 
     }
@@ -133,9 +289,60 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     if (settings.labelContent.csv && settings.csvLabels[node.id]) {
       parts.push(settings.csvLabels[node.id]);
     }
+    const labelTag = settings.labelTag ? node.tags?.[settings.labelTag] : undefined;
+    if (settings.labelContent.tag && labelTag) {
+      parts.push(`${settings.labelTag}:${formatTagValue(labelTag)}`);
+    }
+    const copyNumber = repeats?.segments.get(node.segmentId ?? node.id)?.copyNumber;
+    if (settings.labelContent.copyNumber && copyNumber !== undefined) {
+      parts.push(`CN:${copyNumber}`);
+    }
     return parts.join('; ');
   };
 
+  const getDetailThresholds = (): DetailThresholds => ({
+    labelMinPx: settings.labelMinContigPx,
+    dotMaxPx: settings.dotMaxContigPx
+  });
+
+  // Part of the graph on screen, or null when off-screen culling is off
+  const getCurrentViewport = (): Viewport | null => {
+    const svg = svgRef.current;
+    if (!settings.cullOffscreen || !svg) return null;
+    return getViewport(transformRef.current, svg.clientWidth, svg.clientHeight, VIEWPORT_MARGIN);
+  };
+
+  // Contig ends with links into the part of the graph outside the scope; a '-' strand runs its segment backwards
+  const getHiddenNeighbourEnds = (): SimulationNode[] => {
+    if (!settings.markHiddenNeighbours || !hiddenEnds || hiddenEnds.size === 0) return [];
+    const marked: SimulationNode[] = [];
+    layoutNodesRef.current.forEach(node => {
+      const segmentId = node.segmentId ?? node.id;
+      const reversed = node.strand === '-';
+      if (hiddenEnds.has(`${segmentId}_${reversed ? 'end' : 'start'}`)) marked.push(node.start);
+      if (hiddenEnds.has(`${segmentId}_${reversed ? 'start' : 'end'}`)) marked.push(node.end);
+    });
+    return marked;
+  };
+
+  const getCanvasScene = (edges: SimulationLink[]): CanvasScene => ({
+    ...canvasHighlightRef.current,
+    nodes: layoutNodesRef.current,
+    edges,
+    transform: transformRef.current,
+    contigWidth: settings.nodeWidthScale,
+    getNodeColor,
+    getEdgeWidth,
+    getLabelText,
+    showLabels: settings.showLabels,
+    showArrows: settings.showArrows,
+    labelOutline: settings.labelOutline,
+    lightBackground: !!settings.lightBackground,
+    viewport: getCurrentViewport(),
+    detail: getDetailThresholds(),
+    hiddenNeighbourEnds: getHiddenNeighbourEnds()
+  });
+
   // Zoom Controls
   const handleZoomIn = () => {
     if (svgRef.current && zoomRef.current) {
@@ -161,131 +368,94 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     const width = window.innerWidth;
     const height = window.innerHeight;
     if (hiddenByMinNodes) {
-      simulationRef.current?.stop();
+      simulationRef.current?.terminate();
+      simulationRef.current = null;
       d3.select(svgRef.current).selectAll('*').remove();
       return () => {};
     }
 
-    // Prepare Data
-    nodeLookup.current.clear();
-    const newSimNodes: SimulationNode[] = [];
-    const newSimLinks: SimulationLink[] = [];
-
-    filteredData.nodes.forEach(node => {
-      nodeLookup.current.set(node.id, node);
-      const length = getVisualLength(node.length);
-      const angle = Math.random() * Math.PI * 2;
-      const cx = width / 2 + (Math.random() - 0.5) * 200;
-      const cy = height / 2 + (Math.random() - 0.5) * 200;
-
-      // Check if we have existing positions to preserve
-      const existingStart = simNodesRef.current.find(n => n.id === `${node.id}_start`);
-      const existingEnd = simNodesRef.current.find(n => n.id === `${node.id}_end`);
-
-      const startNode: SimulationNode = {
-        id: `${node.id}_start`,
-        parentId: node.id,
-        type: 'start',
-        x: existingStart?.x ?? cx - (Math.cos(angle) * length) / 2,
-        y: existingStart?.y ?? cy - (Math.sin(angle) * length) / 2,
-        r: settings.nodeWidthScale
-      };
-
-      const endNode: SimulationNode = {
-        id: `${node.id}_end`,
-        parentId: node.id,
-        type: 'end',
-        x: existingEnd?.x ?? cx + (Math.cos(angle) * length) / 2,
-        y: existingEnd?.y ?? cy + (Math.sin(angle) * length) / 2,
-        r: settings.nodeWidthScale
-      };
-
-      newSimNodes.push(startNode, endNode);
-
-      newSimLinks.push({
-        id: `${node.id}_backbone`,
-        source: startNode.id,
-        target: endNode.id,
-        type: 'backbone',
-        parentId: node.id
-      });
-    });
-
-    filteredData.links.forEach((link, i) => {
-      newSimLinks.push({
-        id: `edge_${i}`,
-        source: `${link.source}_end`,
-        target: `${link.target}_start`,
-        type: 'edge'
-      });
-    });
+    // Prepare Data (positions carry over when only the filtering or the scope changed)
+    const source = layoutSourceRef.current;
+    const graph = sourceData ?? data;
+    const keepPositions = source?.data === graph && source.seed === settings.layoutSeed;
+    layoutSourceRef.current = { data: graph, seed: settings.layoutSeed };
+    const previous = keepPositions ? indexSimNodes(simNodesRef.current) : new Map<string, SimulationNode>();
+    const layout = buildLayout(filteredData, {
+      width,
+      height,
+      contigWidth: settings.nodeWidthScale,
+      getVisualLength,
+      seed: settings.layoutSeed
+    }, previous);
+    if (keepPositions) {
+      // Contigs just brought into view (a wider scope, a lower Minimum Nodes) start beside the ones they link to
+      const placed = new Set(layout.layoutNodes.filter(node => previous.has(node.start.id)));
+      placeBesideNeighbours(layout.layoutNodes, layout.simLinks.filter(l => l.type === 'edge'), placed, createRandom(settings.layoutSeed));
+    }
+    const newSimNodes = layout.simNodes;
+    const newSimLinks = layout.simLinks;
 
     simNodesRef.current = newSimNodes;
     simLinksRef.current = newSimLinks;
-
-    // Create Simulation
-    const simulation = d3.forceSimulation<SimulationNode, SimulationLink>(newSimNodes)
-      .force("link", d3.forceLink<SimulationNode, SimulationLink>(newSimLinks)
-        .id(d => d.id)
-        .distance(d => {
-           if (d.type === 'backbone' && d.parentId) {
-             const node = nodeLookup.current.get(d.parentId);
-             return node ? getVisualLength(node.length) : 20;
-           }
-           return settings.linkDistance;
-        })
-        .strength(d => d.type === 'backbone' ? 1 : 0.5)
-      )
-      .force("charge", d3.forceManyBody().strength(settings.chargeStrength))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collide", d3.forceCollide().radius(settings.nodeWidthScale * 1.5).iterations(2));
-
+    layoutNodesRef.current = layout.layoutNodes;
+    layoutLookup.current = layout.layoutLookup;
+    runStaticLayout();
+
+    // Create Simulation (the physics run in a worker; positions come back every frame)
+    const simulation = createLayoutSimulation(newSimNodes, newSimLinks, getLayoutForces(newSimLinks), {
+      center: [width / 2, height / 2],
+      components: physicsOn && settings.packComponents && visibleComponents.length > 1
+        ? new Map(visibleComponents.flatMap((c, i) => c.nodeIds.map(id => [id, i] as [string, number])))
+        : null,
+      // Force simulation stop if initialized in brush mode
+      running: !isBrushMode && physicsOn,
+      onError: message => {
+        if (simulationRef.current === simulation) setLayoutError(message);
+      }
+    });
+    setLayoutError(null);
     simulationRef.current = simulation;
-
-    // Force simulation stop if initialized in brush mode
-    if (isBrushMode) simulation.stop();
+    freshSimulationRef.current = simulation;
 
     return () => {
-      simulation.stop();
+      simulation.terminate();
+      if (simulationRef.current === simulation) simulationRef.current = null;
     };
-  }, [filteredData, data, settings.linkDistance, settings.chargeStrength, settings.nodeLengthScale, settings.nodeWidthScale, settings.minNodesToRender]);
+  }, [filteredData, data, sourceData, settings.minNodesToRender, settings.layoutSeed, settings.packComponents, settings.layoutAlgorithm]);
 
   // 2. Handle Simulation Parameters Updates (Update Forces without resetting)
   useEffect(() => {
      const simulation = simulationRef.current;
-     if (!simulation) return;
-
-     simulation.force("charge", d3.forceManyBody().strength(settings.chargeStrength));
-     simulation.force("collide", d3.forceCollide().radius(settings.nodeWidthScale * 1.5).iterations(2));
-     
-     const linkForce = simulation.force("link") as d3.ForceLink<SimulationNode, SimulationLink>;
-     if (linkForce) {
-        linkForce.distance(d => {
-           if (d.type === 'backbone' && d.parentId) {
-             const node = nodeLookup.current.get(d.parentId);
-             return node ? getVisualLength(node.length) : 20;
-           }
-           return settings.linkDistance;
-        });
-     }
+     if (!simulation || simulation === freshSimulationRef.current) return;
 
-     if (!isBrushMode) {
-        simulation.alpha(0.3).restart();
+     simulation.setForces(getLayoutForces(simLinksRef.current));
+
+     if (!physicsOn) {
+        // Static layouts are recomputed for the new lengths and spacing instead
+        runStaticLayout();
+        simulation.syncNodes(simNodesRef.current);
+     } else if (!isBrushMode) {
+        simulation.restart(0.3);
      }
-  }, [settings]);
+  }, [settings.linkDistance, settings.chargeStrength, settings.nodeLengthScale, settings.nodeWidthScale]);
 
 
   // 3. Freeze Logic (Toggle Brush Mode)
   useEffect(() => {
-    if (simulationRef.current) {
+    if (simulationRef.current && simulationRef.current !== freshSimulationRef.current) {
       if (isBrushMode) {
         simulationRef.current.stop();
-      } else {
-        simulationRef.current.alpha(0.1).restart();
+      } else if (physicsOn) {
+        simulationRef.current.restart(0.1);
       }
     }
   }, [isBrushMode]);
 
+  // Runs after the effects above on every commit, so a fresh simulation is only skipped once
+  useEffect(() => {
+    freshSimulationRef.current = null;
+  });
+
 
   // 4. Rendering (Updates DOM)
   useEffect(() => {
@@ -293,6 +463,8 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     const svg = d3.select(svgRef.current);
     const simulation = simulationRef.current;
     if (hiddenByMinNodes) {
+      drawCanvasRef.current = null;
+      renderFrameRef.current = null;
       simulation?.stop();
       simNodesRef.current = [];
       simLinksRef.current = [];
@@ -306,14 +478,6 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
     let container = svg.select("g.zoom-container") as d3.Selection<SVGGElement, unknown, null, unknown>;
     if (container.empty()) {
        svg.selectAll("*").remove();
-       
-        // Background handler
-        svg.on("click", (event: any) => {
-          const target = event?.target as Element | null;
-          if (target && target.tagName === 'svg' && !isBrushMode) {
-            onSelectionChange([]);
-          }
-        });
 
         const defs = svg.select('defs').empty() ? svg.append("defs") : svg.select('defs');
         defs.append("marker")
@@ -348,6 +512,8 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
         // Groups
         container.append("g").attr("class", "links");
         container.append("g").attr("class", "nodes");
+        container.append("g").attr("class", "contig-arrows");
+        container.append("g").attr("class", "hidden-neighbours");
         container.append("g").attr("class", "labels");
 
         // Zoom Setup
@@ -355,26 +521,99 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
           .scaleExtent([0.1, 5])
           .on("zoom", (event) => {
             container.attr("transform", event.transform);
+            transformRef.current = event.transform;
+            // Level of detail depends on the zoom, so both backends redraw
+            renderFrameRef.current?.();
             setTransform(event.transform);
           });
         zoomRef.current = zoom;
         svg.call(zoom);
     }
 
+    // Canvas hit testing works from the simulation positions, not from DOM elements
+    const contigAt = (event: any) => {
+      const [x, y] = d3.pointer(event, svgRef.current);
+      return findContigAt({ nodes: layoutNodesRef.current, transform: transformRef.current, contigWidth: settings.nodeWidthScale }, x, y);
+    };
+
+    // Background handler; on canvas a click also selects the contig under the pointer
+    svg.on("click", (event: any) => {
+      if (isBrushMode) return;
+      if (useCanvas) {
+        const hit = contigAt(event);
+        onSelectionChange(hit ? [toAssemblyNode(hit)] : []);
+        return;
+      }
+      const target = event?.target as Element | null;
+      if (target && target.tagName === 'svg') {
+        onSelectionChange([]);
+      }
+    });
+
     // Update Zoom Filter dynamically based on isBrushMode
     if (zoomRef.current) {
         zoomRef.current.filter((event: any) => {
             if (isBrushMode) return false;
             const btn = event?.button;
-            return btn == null || btn === 0;
+            if (!(btn == null || btn === 0)) return false;
+            // On canvas, pressing on a contig drags it instead of panning
+            return !(useCanvas && event.type === 'mousedown' && contigAt(event));
         });
     }
 
     // Render Elements
     const linkGroup = container.select("g.links");
     const nodeGroup = container.select("g.nodes");
+    const arrowGroup = container.select("g.contig-arrows");
+    const markerGroup = container.select("g.hidden-neighbours");
     const labelGroup = container.select("g.labels");
 
+    if (useCanvas) {
+      linkGroup.selectAll("*").remove();
+      nodeGroup.selectAll("*").remove();
+      arrowGroup.selectAll("*").remove();
+      markerGroup.selectAll("*").remove();
+      labelGroup.selectAll("*").remove();
+
+      const edgeLinks = simLinksRef.current.filter(l => l.type === 'edge');
+      const draw = () => {
+        if (canvasRef.current) drawCanvasScene(canvasRef.current, getCanvasScene(edgeLinks));
+      };
+      drawCanvasRef.current = draw;
+      renderFrameRef.current = draw;
+
+      simulation.onTick(draw);
+      draw();
+
+      // Contigs aren't elements here, so the drag lives on the SVG and picks its contig by hit testing
+      const canvasDrag = d3.drag<SVGSVGElement, unknown>()
+        .filter((event: any) => !isBrushMode && (event.button == null || event.button === 0))
+        .subject((event: any) => contigAt(event.sourceEvent) as any)
+        .on("start", (e) => {
+          const node: LayoutNode = e.subject;
+          pinContig(node);
+          simulation.syncNodes(node.chain);
+          if (!e.active && physicsOn) { simulation.setAlphaTarget(0.3); simulation.restart(); }
+        })
+        .on("drag", (e) => {
+          const k = transformRef.current.k;
+          const node: LayoutNode = e.subject;
+          moveContig(node, e.dx / k, e.dy / k);
+          simulation.syncNodes(node.chain);
+        })
+        .on("end", (e) => {
+          if (!e.active) simulation.setAlphaTarget(0);
+          const node: LayoutNode = e.subject;
+          unpinContig(node);
+          simulation.syncNodes(node.chain);
+        });
+      svg.call(canvasDrag);
+      return;
+    }
+
+    drawCanvasRef.current = null;
+    svg.on(".drag", null);
+
     const updateVisuals = () => {
       const edges = linkGroup.selectAll<SVGPathElement, SimulationLink>("path.edge")
         .data(simLinksRef.current.filter(l => l.type === 'edge'), d => (d as any).id)
@@ -382,11 +621,12 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
         .attr("class", "edge")
         .attr("fill", "none")
         .attr("stroke", "#475569")
-        .attr("stroke-width", 2)
+        .attr("stroke-width", d => getEdgeWidth(d))
+        .attr("stroke-dasharray", d => d.gap ? "6,4" : null)
         .attr("marker-end", settings.showArrows ? "url(#arrow-head)" : null);
 
-      const contigs = nodeGroup.selectAll<SVGPathElement, AssemblyNode>("path.contig")
-        .data(filteredData.nodes, d => (d as any).id)
+      const contigs = nodeGroup.selectAll<SVGPathElement, LayoutNode>("path.contig")
+        .data(layoutNodesRef.current, d => d.id)
         .join("path")
         .attr("class", "contig")
         .attr("id", d => `node-${d.id}`)
@@ -398,12 +638,33 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
         .on("click", (e, d) => {
           if (!isBrushMode) {
             e.stopPropagation();
-            onSelectionChange([d]);
+            onSelectionChange([toAssemblyNode(d)]);
           }
         });
 
-      const labels = labelGroup.selectAll<SVGTextElement, AssemblyNode>("text")
-        .data(filteredData.nodes, d => (d as any).id)
+      // Strand chevrons follow each contig's curve
+      const arrows = arrowGroup.selectAll<SVGPathElement, LayoutNode>("path.contig-arrow")
+        .data(settings.showArrows ? layoutNodesRef.current : [], d => d.id)
+        .join("path")
+        .attr("class", "contig-arrow")
+        .attr("fill", "none")
+        .attr("stroke", CONTIG_ARROW_COLOR)
+        .attr("stroke-width", Math.max(1, settings.nodeWidthScale / 6))
+        .attr("stroke-linecap", "round")
+        .attr("pointer-events", "none")
+        .attr("d", d => getContigArrowPath(d, settings.nodeWidthScale));
+
+      const markers = markerGroup.selectAll<SVGCircleElement, SimulationNode>("circle")
+        .data(getHiddenNeighbourEnds(), d => d.id)
+        .join("circle")
+        .attr("r", getHiddenNeighbourRadius(settings.nodeWidthScale))
+        .attr("fill", "none")
+        .attr("stroke", HIDDEN_NEIGHBOUR_COLOR)
+        .attr("stroke-width", 2)
+        .attr("pointer-events", "none");
+
+      const labels = labelGroup.selectAll<SVGTextElement, LayoutNode>("text")
+        .data(layoutNodesRef.current, d => d.id)
         .join("text")
         .text(d => getLabelText(d))
         .attr("font-family", "JetBrains Mono")
@@ -426,103 +687,133 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
             .style("text-shadow", settings.lightBackground ? "0px 1px 1px rgba(0,0,0,0.2)" : "0px 1px 2px rgba(0,0,0,0.8)");
       }
 
-      let lastTick = 0;
-      simulation.on("tick", () => {
-        const now = performance.now();
-        if (now - lastTick < 16) return;
-        lastTick = now;
-
-        edges.attr("d", d => {
-          const s = d.source as SimulationNode;
-          const t = d.target as SimulationNode;
-          if (s.x !== undefined && s.y !== undefined && t.x !== undefined && t.y !== undefined) {
-             return `M${s.x},${s.y} L${t.x},${t.y}`;
-          }
-          return "";
-        });
-
-        contigs.attr("d", d => {
-          const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-          const e = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-          if (s && e && s.x !== undefined && s.y !== undefined && e.x !== undefined && e.y !== undefined) {
-             return `M${s.x},${s.y} L${e.x},${e.y}`;
-          }
-          return "";
-        });
-
-        labels.attr("transform", d => {
-          const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-          const e = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-          if (s && e && s.x !== undefined && e.x !== undefined) {
-            const mx = (s.x + e.x) / 2;
-            const my = (s.y + (e.y || 0)) / 2;
-            return `translate(${mx}, ${my})`;
-          }
-          return "translate(0,0)";
-        });
-      });
+      const renderFrame = () => {
+        const viewport = getCurrentViewport();
+        const thresholds = getDetailThresholds();
+        const details = new Map<LayoutNode, ContigDetail>();
+        layoutNodesRef.current.forEach(node => details.set(node, getContigDetail(node, transformRef.current.k, viewport, thresholds)));
+        const isShown = (node: LayoutNode) => !!details.get(node)?.visible;
+        const isDot = (node: LayoutNode) => !!details.get(node)?.dot;
+        const isLabelled = (node: LayoutNode) => !!details.get(node)?.label;
+        const isEdgeShown = (d: SimulationLink) => isEdgeVisible(d.source as SimulationNode, d.target as SimulationNode, viewport);
+
+        // Hidden elements keep their old geometry until they are back in view
+        edges.style("display", d => isEdgeShown(d) ? null : "none")
+          .filter(isEdgeShown)
+          .attr("d", d => getEdgePath(d.source as SimulationNode, d.target as SimulationNode));
+
+        contigs.style("display", d => isShown(d) ? null : "none")
+          .filter(isShown)
+          .attr("d", d => isDot(d) ? getContigDotPath(d) : getContigPath(d));
+        arrows.style("display", d => isShown(d) && !isDot(d) ? null : "none")
+          .filter(d => isShown(d) && !isDot(d))
+          .attr("d", d => getContigArrowPath(d, settings.nodeWidthScale));
+        markers.style("display", d => isEdgeVisible(d, d, viewport) ? null : "none")
+          .filter(d => isEdgeVisible(d, d, viewport))
+          .attr("cx", d => d.x ?? 0)
+          .attr("cy", d => d.y ?? 0);
+        labels.style("display", d => isLabelled(d) ? null : "none")
+          .filter(isLabelled)
+          .attr("transform", getLabelTransform);
+      };
+      renderFrameRef.current = renderFrame;
+      simulation.onTick(renderFrame);
+      // Static layouts (and a frozen start) never tick, so draw the positions there are now
+      renderFrame();
     };
 
     updateVisuals();
 
     // Drag Behavior
-    const drag = d3.drag<SVGPathElement, AssemblyNode>()
+    const drag = d3.drag<SVGPathElement, LayoutNode>()
       .filter(() => !isBrushMode)
-      .on("start", (e, d) => {
-        if (!e.active) simulation.alphaTarget(0.3).restart();
-        const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-        const end = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-        if (s && end) {
-          s.fx = s.x; s.fy = s.y;
-          end.fx = end.x; end.fy = end.y;
-        }
+      .on("start", (e, node) => {
+        pinContig(node);
+        simulation.syncNodes(node.chain);
+        if (!e.active && physicsOn) { simulation.setAlphaTarget(0.3); simulation.restart(); }
       })
-      .on("drag", (e, d) => {
-        const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-        const end = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-        if (s && end && s.fx !== null && s.fy !== null && end.fx !== null && end.fy !== null) {
-          s.fx += e.dx;
-          s.fy += e.dy;
-          end.fx += e.dx;
-          end.fy += e.dy;
-        }
+      .on("drag", (e, node) => {
+        moveContig(node, e.dx, e.dy);
+        simulation.syncNodes(node.chain);
       })
-      .on("end", (e, d) => {
-        if (!e.active) simulation.alphaTarget(0);
-        const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-        const end = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-        if (s && end) {
-          s.fx = null; s.fy = null;
-          end.fx = null; end.fy = null;
-        }
+      .on("end", (e, node) => {
+        if (!e.active) simulation.setAlphaTarget(0);
+        unpinContig(node);
+        simulation.syncNodes(node.chain);
       });
       
     nodeGroup.selectAll("path.contig").call(drag as any);
 
-  }, [filteredData, data, settings, isBrushMode, randomColorMap]); 
+  }, [filteredData, data, settings, isBrushMode, useCanvas, randomColorMap, tagColorScale, bubbleColors, artifactColors, repeats, hiddenEnds, overlapWidthScale]); 
   // isBrushMode here triggers re-render (cursor, drag filter), 
   // but because Simulation Initialization logic is in a separate useEffect that DOES NOT depend on isBrushMode, 
   // positions are preserved.
 
-  // Separate Effect: Selection Highlight
+  // Contig ids and contig-end pairs traversed by the highlighted path, in step order
+  const pathHighlight = useMemo(() => {
+    if (!highlightedPath) return null;
+    const order = new Map<string, number>();
+    const edgeKeys = new Set<string>();
+    const toNodeId = (step: PathStep) => settings.doubleMode ? getStrandNodeId(step.segmentId, step.orientation) : step.segmentId;
+    // In double mode each strand node is always read forwards
+    const toStrand = (step: PathStep) => settings.doubleMode ? '+' : step.orientation;
+    highlightedPath.steps.forEach((step, i) => {
+      const id = toNodeId(step);
+      if (!order.has(id)) order.set(id, i);
+      if (i === 0) return;
+      const prev = highlightedPath.steps[i - 1];
+      const from = `${toNodeId(prev)}_${getExitEnd(toStrand(prev))}`;
+      const to = `${id}_${getEntryEnd(toStrand(step))}`;
+      edgeKeys.add(`${from}|${to}`);
+      edgeKeys.add(`${to}|${from}`);
+    });
+    return { order, edgeKeys };
+  }, [highlightedPath, settings.doubleMode]);
+
+  // Separate Effect: Selection & Path Highlight
   useEffect(() => {
     if (!svgRef.current) return;
     const svg = d3.select(svgRef.current);
     const contigs = svg.selectAll<SVGPathElement, AssemblyNode>("path.contig");
+    const arrows = svg.selectAll<SVGPathElement, AssemblyNode>("path.contig-arrow");
+    const edges = svg.selectAll<SVGPathElement, SimulationLink>("path.edge");
     
-    const isSelected = (id: string) => selectedNodes.some(n => n.id === id);
+    const selectedIds = new Set(selectedNodes.map(n => n.id));
+    const isSelected = (id: string) => selectedIds.has(id);
     const hasSelection = selectedNodes.length > 0;
+    const onPath = (id: string) => !!pathHighlight?.order.has(id);
+    const isPathEdge = (d: SimulationLink) => !!pathHighlight?.edgeKeys.has(`${(d.source as SimulationNode).id}|${(d.target as SimulationNode).id}`);
+    const isHighlighted = (id: string) => isSelected(id) || onPath(id);
+    const dimOthers = hasSelection || !!pathHighlight;
+
+    canvasHighlightRef.current = { isHighlighted, dimOthers, isPathEdge, pathActive: !!pathHighlight };
+    if (drawCanvasRef.current) {
+      drawCanvasRef.current();
+      return;
+    }
 
+    // Path segments light up one after another so the walk order is visible
     contigs.transition().duration(200)
-      .style("opacity", d => hasSelection && !isSelected(d.id) ? 0.3 : 1)
-      .style("filter", d => isSelected(d.id) ? "url(#selection-glow)" : null);
+      .delay(d => pathHighlight?.order.has(d.id) ? Math.min(pathHighlight.order.get(d.id)! * 40, 2000) : 0)
+      .style("opacity", d => dimOthers && !isHighlighted(d.id) ? 0.3 : 1)
+      .style("filter", d => isHighlighted(d.id) ? "url(#selection-glow)" : null);
+
+    arrows.style("opacity", d => dimOthers && !isHighlighted(d.id) ? 0.3 : 1);
+
+    edges
+      .attr("stroke", d => isPathEdge(d) ? "#f59e0b" : "#475569")
+      .attr("stroke-width", d => isPathEdge(d) ? Math.max(4, getEdgeWidth(d)) : getEdgeWidth(d))
+      .style("opacity", d => pathHighlight && !isPathEdge(d) ? 0.3 : 1);
       
     if (hasSelection) {
       selectedNodes.forEach(node => {
         contigs.filter(d => d.id === node.id).raise();
       });
     }
-  }, [selectedNodes, filteredData, settings]);
+    if (pathHighlight) {
+      contigs.filter(d => onPath(d.id)).raise();
+    }
+  }, [selectedNodes, pathHighlight, filteredData, settings, isBrushMode, useCanvas]);
 
   // Separate Effect: Brush Logic
   useEffect(() => {
@@ -538,27 +829,8 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
            if (!event.selection) return;
            const [[x0, y0], [x1, y1]] = event.selection;
            
-           const simNodes = simNodesRef.current;
-           const newSelected: AssemblyNode[] = [];
-
-           filteredData.nodes.forEach(node => {
-             const s = simNodes.find(n => n.id === `${node.id}_start`);
-             const e = simNodes.find(n => n.id === `${node.id}_end`);
-             
-             if (s && e && s.x != null && s.y != null && e.x != null && e.y != null) {
-               const startIn = s.x * transform.k + transform.x >= x0 && s.x * transform.k + transform.x <= x1 && 
-                               s.y * transform.k + transform.y >= y0 && s.y * transform.k + transform.y <= y1;
-               
-               const endIn = e.x * transform.k + transform.x >= x0 && e.x * transform.k + transform.x <= x1 && 
-                             e.y * transform.k + transform.y >= y0 && e.y * transform.k + transform.y <= y1;
-
-               if (startIn || endIn) {
-                 newSelected.push(node);
-               }
-             }
-           });
-           
-           onSelectionChange(newSelected);
+           const newSelected = selectContigsInRect(layoutNodesRef.current, transform, [[x0, y0], [x1, y1]]);
+           onSelectionChange(newSelected.map(toAssemblyNode));
            brushGroup.call(brush.move, null);
         });
 
@@ -583,68 +855,88 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
       .style('fill', 'none')
       .style('pointer-events', 'all');
 
+    // Resolved once per gesture: the selection holds plain nodes, the layout the ones with end references
+    let moving: LayoutNode[] = [];
     const drag = d3.drag<SVGRectElement, unknown>()
+      .on('start', () => {
+        moving = selectedNodes
+          .map(node => layoutLookup.current.get(node.id))
+          .filter((node): node is LayoutNode => !!node);
+      })
       .on('drag', (e) => {
         const dx = e.dx / transform.k;
         const dy = e.dy / transform.k;
-        selectedNodes.forEach(node => {
-          const s = simNodesRef.current.find(n => n.id === `${node.id}_start`);
-          const end = simNodesRef.current.find(n => n.id === `${node.id}_end`);
-          if (s && end) {
-            if (s.x != null) s.x += dx; if (s.y != null) s.y += dy;
-            if (end.x != null) end.x += dx; if (end.y != null) end.y += dy;
-            if (s.fx != null) s.fx += dx; if (s.fy != null) s.fy += dy;
-            if (end.fx != null) end.fx += dx; if (end.fy != null) end.fy += dy;
-          }
-        });
-
-        const container = svg.select('g.zoom-container');
-        const linkGroup = container.select('g.links');
-        const nodeGroup = container.select('g.nodes');
-        const labelGroup = container.select('g.labels');
-
-        linkGroup.selectAll<SVGPathElement, SimulationLink>('path.edge')
-          .attr('d', d => {
-            const s = d.source as SimulationNode;
-            const t = d.target as SimulationNode;
-            if (s.x !== undefined && s.y !== undefined && t.x !== undefined && t.y !== undefined) {
-               return `M${s.x},${s.y} L${t.x},${t.y}`;
-            }
-            return '';
-          });
+        moving.forEach(node => moveContig(node, dx, dy));
+        simulationRef.current?.syncNodes(moving.flatMap(node => node.chain));
 
-        nodeGroup.selectAll<SVGPathElement, AssemblyNode>('path.contig')
-          .attr('d', d => {
-            const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-            const e2 = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-            if (s && e2 && s.x !== undefined && s.y !== undefined && e2.x !== undefined && e2.y !== undefined) {
-               return `M${s.x},${s.y} L${e2.x},${e2.y}`;
-            }
-            return '';
-          });
-
-        labelGroup.selectAll<SVGTextElement, AssemblyNode>('text')
-          .attr('transform', d => {
-            const s = simNodesRef.current.find(n => n.id === `${d.id}_start`);
-            const e2 = simNodesRef.current.find(n => n.id === `${d.id}_end`);
-            if (s && e2 && s.x !== undefined && e2.x !== undefined) {
-              const mx = (s.x + e2.x) / 2;
-              const my = (s.y + (e2.y || 0)) / 2;
-              return `translate(${mx}, ${my})`;
-            }
-            return 'translate(0,0)';
-          });
+        renderFrameRef.current?.();
+      })
+      // Contigs placed by hand stay put once physics resumes (and are saved as pinned); dragging one in
+      // Move mode releases it
+      .on('end', () => {
+        moving.forEach(pinContig);
+        simulationRef.current?.syncNodes(moving.flatMap(node => node.chain));
       });
 
     dragLayer.call(drag as any);
-  }, [isBrushMode, selectedNodes, transform]);
+  }, [isBrushMode, selectedNodes, transform, settings.nodeWidthScale]);
+
+  useImperativeHandle(ref, () => ({
+    getExportSvg: () => {
+      if (!svgRef.current) return null;
+      if (!drawCanvasRef.current) {
+        const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+        clone.querySelectorAll('.brush-group, .selection-drag-layer').forEach(el => el.remove());
+        return clone;
+      }
+      return sceneToSvg(getCanvasScene(simLinksRef.current.filter(l => l.type === 'edge')));
+    },
+    getLayoutFile: () => {
+      if (!simulationRef.current) return null;
+      return createLayoutFile(layoutNodesRef.current, settings.doubleMode);
+    },
+    applyLayoutFile: (file) => {
+      const simulation = simulationRef.current;
+      if (!simulation) return null;
+      const result = applyLayoutFile(
+        layoutNodesRef.current,
+        simLinksRef.current.filter(l => l.type === 'edge'),
+        file,
+        createRandom(settings.layoutSeed)
+      );
+      simulation.stop();
+      simulation.syncNodes(simNodesRef.current);
+      renderFrameRef.current?.();
+      return result;
+    },
+    zoomToNodes: (ids) => {
+      const svgElement = svgRef.current;
+      const zoom = zoomRef.current;
+      if (!svgElement || !zoom) return;
+      const points = ids
+        .flatMap(id => layoutLookup.current.get(id)?.chain ?? [])
+        .filter(n => n.x !== undefined && n.y !== undefined);
+      if (points.length === 0) return;
+      const [x0, x1] = d3.extent(points, n => n.x!) as [number, number];
+      const [y0, y1] = d3.extent(points, n => n.y!) as [number, number];
+      const width = svgElement.clientWidth;
+      const height = svgElement.clientHeight;
+      const [minScale, maxScale] = zoom.scaleExtent();
+      const k = Math.max(minScale, Math.min(maxScale, 0.8 * Math.min(width / Math.max(1, x1 - x0), height / Math.max(1, y1 - y0))));
+      const target = d3.zoomIdentity.translate(width / 2, height / 2).scale(k).translate(-(x0 + x1) / 2, -(y0 + y1) / 2);
+      d3.select(svgElement).transition().duration(750).call(zoom.transform, target);
+    }
+  }));
 
   return (
     <div className={`relative w-full h-full overflow-hidden print:overflow-visible ${settings.lightBackground ? 'bg-white' : 'bg-canvas'}`}>
+      {useCanvas && (
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      )}
       <svg
         id="main-graph-svg"
         ref={svgRef}
-        className={`w-full h-full block touch-none ${isBrushMode ? 'cursor-crosshair' : ''}`}
+        className={`relative w-full h-full block touch-none ${isBrushMode ? 'cursor-crosshair' : ''}`}
         width="100%"
         height="100%"
       >
@@ -657,6 +949,18 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
         </div>
       )}
 
+      {layoutError && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-2 bg-red-900/80 text-red-100 border border-red-700 rounded-lg text-xs print:hidden">
+          Layout stopped: {layoutError}
+        </div>
+      )}
+
+      {emptyScope && (
+        <div className="absolute inset-0 flex items-center justify-center text-slate-300 text-sm print:hidden">
+          Nothing in scope: enter segments to draw around
+        </div>
+      )}
+
       {/* Physical Zoom Controls Overlay + Freeze Button */}
       <div className="absolute top-20 left-4 flex flex-col gap-2 z-10 print:hidden">
         <button 
@@ -699,6 +1003,6 @@ const GraphVisualizer: React.FC<GraphVisualizerProps> = ({
       </div>
     </div>
   );
-};
+});
 
 export default GraphVisualizer;
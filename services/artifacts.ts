@@ -0,0 +1,62 @@
+import { GraphData } from '../types';
+import { getLinkedEnds } from './graphStats';
+
+// Segments that look like assembly artifacts, for triage before cleaning the graph or changing assembler settings:
+// short tips hanging off the graph, short segments with no links, and segments covered far less than the
+// segments they join
+
+export type ArtifactKind = 'tip' | 'isolated' | 'low-coverage';
+
+export const ARTIFACT_KINDS: ArtifactKind[] = ['tip', 'isolated', 'low-coverage'];
+
+// Colors for ColorMode.ARTIFACT; a segment flagged more than once takes its first kind's color
+export const ARTIFACT_COLORS: Record<ArtifactKind, string> = {
+  tip: '#f97316',
+  isolated: '#a855f7',
+  'low-coverage': '#ef4444'
+};
+
+export interface ArtifactThresholds {
+  tipMaxLength: number; // A segment linked at one end only, shorter than this, is a tip
+  isolatedMaxLength: number; // A segment with no links, shorter than this, is an isolated fragment
+  lowCoverageRatio: number; // Coverage below this fraction of its neighbours' is low (0 = never)
+}
+
+export interface Artifact {
+  segmentId: string;
+  kinds: ArtifactKind[];
+  neighbourCoverage?: number; // Length-weighted coverage of the linked segments, when it was compared
+}
+
+export const findArtifacts = (data: GraphData, thresholds: ArtifactThresholds): Artifact[] => {
+  const linkedEnds = getLinkedEnds(data.links);
+  const nodeMap = new Map(data.nodes.map(n => [n.id, n]));
+  const neighbours = new Map<string, Set<string>>();
+  data.links.forEach(link => {
+    if (link.source === link.target) return;
+    if (!neighbours.has(link.source)) neighbours.set(link.source, new Set());
+    if (!neighbours.has(link.target)) neighbours.set(link.target, new Set());
+    neighbours.get(link.source)!.add(link.target);
+    neighbours.get(link.target)!.add(link.source);
+  });
+
+  const artifacts: Artifact[] = [];
+  data.nodes.forEach(node => {
+    const kinds: ArtifactKind[] = [];
+    const start = linkedEnds.has(`${node.id}_start`);
+    const end = linkedEnds.has(`${node.id}_end`);
+    if (start !== end && node.length < thresholds.tipMaxLength) kinds.push('tip');
+    if (!start && !end && node.length < thresholds.isolatedMaxLength) kinds.push('isolated');
+
+    let neighbourCoverage: number | undefined;
+    const around = Array.from(neighbours.get(node.id) ?? []).map(id => nodeMap.get(id)!).filter(Boolean);
+    const aroundLength = around.reduce((sum, n) => sum + n.length, 0);
+    if (aroundLength > 0) {
+      neighbourCoverage = around.reduce((sum, n) => sum + n.length * n.coverage, 0) / aroundLength;
+      if (node.coverage < neighbourCoverage * thresholds.lowCoverageRatio) kinds.push('low-coverage');
+    }
+
+    if (kinds.length > 0) artifacts.push({ segmentId: node.id, kinds, neighbourCoverage });
+  });
+  return artifacts;
+};
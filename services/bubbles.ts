@@ -0,0 +1,124 @@
+import { AssemblyNode, GraphData, PathStep } from '../types';
+import { flipOrientation } from './orientation';
+import { buildStepGraph, stepKey } from './pathFinder';
+
+// Bubbles in the oriented graph: regions entered through one segment and left through another, where every
+// walk from the entrance reaches the exit and nothing else gets in or out. A simple bubble has only single
+// segments (or direct links) between its ends, as a SNP or small indel gives; a superbubble has longer or
+// nested branches.
+
+export interface BubbleBranch {
+  segmentIds: string[]; // Segments between entrance and exit; empty for a link joining them directly
+  length: number;
+  coverage: number; // Length-weighted mean over the branch's segments (0 for a direct link)
+}
+
+export interface Bubble {
+  id: string;
+  kind: 'simple' | 'super';
+  entrance: PathStep;
+  exit: PathStep;
+  segmentIds: string[]; // Every segment inside, without the entrance and exit
+  branches: BubbleBranch[];
+  branchesTruncated: boolean; // More walks through the bubble than MAX_BRANCHES
+}
+
+// Stops the search from one entrance after this many segments, so large tangles don't take quadratic time
+const MAX_BUBBLE_SIZE = 200;
+// Walks listed per bubble; superbubbles can have exponentially many
+const MAX_BRANCHES = 16;
+
+const flipStep = (step: PathStep): PathStep => ({ segmentId: step.segmentId, orientation: flipOrientation(step.orientation) });
+
+export const findBubbles = (data: GraphData): Bubble[] => {
+  const nodeMap = new Map<string, AssemblyNode>(data.nodes.map(n => [n.id, n]));
+  const next = buildStepGraph(data);
+  const children = (step: PathStep) => next.get(stepKey(step)) ?? [];
+  // Whatever leads into a step is what leads out of its reverse strand, turned around
+  const parents = (step: PathStep) => children(flipStep(step)).map(flipStep);
+
+  // Superbubble with entrance `s` (Onodera et al.): walk forward, taking a step only once everything leading
+  // into it has been walked, until a single step is left that everything reached funnels into
+  const searchFrom = (s: PathStep): { exit: PathStep; inside: PathStep[] } | null => {
+    const visited = new Set<string>();
+    const seen = new Map<string, PathStep>([[stepKey(s), s]]);
+    const pushed = new Set<string>([stepKey(s)]);
+    const stack: PathStep[] = [s];
+    const inside: PathStep[] = [];
+    while (stack.length > 0) {
+      const v = stack.pop()!;
+      const vKey = stepKey(v);
+      visited.add(vKey);
+      seen.delete(vKey);
+      if (v !== s) inside.push(v);
+      if (inside.length > MAX_BUBBLE_SIZE) return null;
+      const out = children(v);
+      if (out.length === 0) return null; // A tip: walks can leave without reaching an exit
+      for (const u of out) {
+        if (u.segmentId === s.segmentId) return null; // A cycle back to the entrance
+        const uKey = stepKey(u);
+        seen.set(uKey, u);
+        if (!pushed.has(uKey) && parents(u).every(p => visited.has(stepKey(p)))) {
+          pushed.add(uKey);
+          stack.push(u);
+        }
+      }
+      if (stack.length === 1 && seen.size === 1 && seen.has(stepKey(stack[0]))) {
+        const exit = stack[0];
+        if (children(exit).some(u => u.segmentId === s.segmentId)) return null;
+        return { exit, inside };
+      }
+    }
+    return null;
+  };
+
+  const listBranches = (entrance: PathStep, exit: PathStep) => {
+    const branches: BubbleBranch[] = [];
+    let truncated = false;
+    const walk = (step: PathStep, path: string[]) => {
+      if (branches.length >= MAX_BRANCHES) { truncated = true; return; }
+      if (step.segmentId === exit.segmentId) {
+        const nodes = path.map(id => nodeMap.get(id)!).filter(Boolean);
+        const length = nodes.reduce((sum, n) => sum + n.length, 0);
+        const weighted = nodes.reduce((sum, n) => sum + n.length * n.coverage, 0);
+        branches.push({ segmentIds: path, length, coverage: length > 0 ? weighted / length : 0 });
+        return;
+      }
+      children(step).forEach(u => {
+        if (path.includes(u.segmentId) || u.segmentId === entrance.segmentId) return;
+        walk(u, u.segmentId === exit.segmentId ? path : [...path, u.segmentId]);
+      });
+    };
+    walk(entrance, []);
+    return { branches, truncated };
+  };
+
+  const bubbles: Bubble[] = [];
+  // Each bubble is found once from each strand (s -> t and ~t -> ~s); the first one found is kept
+  const found = new Set<string>();
+  data.nodes.forEach(node => {
+    (['+', '-'] as const).forEach(orientation => {
+      const entrance: PathStep = { segmentId: node.id, orientation };
+      if (new Set(children(entrance).map(stepKey)).size < 2) return;
+      const result = searchFrom(entrance);
+      if (!result) return;
+      const segmentIds = Array.from(new Set(result.inside.map(step => step.segmentId)));
+      // A region holding both strands of a segment folds back on itself; not a bubble in the usual sense
+      if (segmentIds.length !== result.inside.length || segmentIds.includes(result.exit.segmentId)) return;
+      const key = [[entrance.segmentId, result.exit.segmentId].sort().join('|'), ...[...segmentIds].sort()].join(',');
+      if (found.has(key)) return;
+      found.add(key);
+      const { branches, truncated } = listBranches(entrance, result.exit);
+      bubbles.push({
+        id: `bubble_${bubbles.length + 1}`,
+        kind: !truncated && branches.every(b => b.segmentIds.length <= 1) ? 'simple' : 'super',
+        entrance,
+        exit: result.exit,
+        segmentIds,
+        branches,
+        branchesTruncated: truncated
+      });
+    });
+  });
+  return bubbles;
+};
@@ -0,0 +1,51 @@
+import { AssemblyLink, CigarOp, CigarOpType } from '../types';
+
+const CIGAR_OP = /(\d+)([MIDNSHPX=])/g;
+const CIGAR = /^(\d+[MIDNSHPX=])+$/;
+
+// Ops that consume bases of the reference (the link's source end) and of the query (the target's start), as in SAM
+const CONSUMES_REFERENCE = new Set<CigarOpType>(['M', 'D', 'N', '=', 'X']);
+const CONSUMES_QUERY = new Set<CigarOpType>(['M', 'I', 'S', '=', 'X']);
+
+// "*" (no alignment given) parses to no ops; anything that isn't a CIGAR string returns null
+export const parseCigar = (value: string): CigarOp[] | null => {
+  if (value === '*') return [];
+  if (!CIGAR.test(value)) return null;
+  const ops: CigarOp[] = [];
+  for (const m of value.matchAll(CIGAR_OP)) {
+    ops.push({ length: parseInt(m[1], 10), op: m[2] as CigarOpType });
+  }
+  return ops;
+};
+
+export const formatCigar = (ops: CigarOp[]): string => {
+  return ops.length > 0 ? ops.map(o => `${o.length}${o.op}`).join('') : '*';
+};
+
+// Bases of each side covered by the alignment: "10M1I5M" spans 15 bp of the reference and 16 bp of the query
+export const getCigarOverlap = (ops: CigarOp[]): { reference: number; query: number } => {
+  let reference = 0;
+  let query = 0;
+  ops.forEach(({ op, length }) => {
+    if (CONSUMES_REFERENCE.has(op)) reference += length;
+    if (CONSUMES_QUERY.has(op)) query += length;
+  });
+  return { reference, query };
+};
+
+// The same alignment read from the other side: reference and query swap, so insertions become deletions
+export const invertCigar = (ops: CigarOp[]): CigarOp[] => {
+  return ops.slice().reverse().map(({ op, length }) => ({
+    length,
+    op: op === 'I' ? 'D' : op === 'D' ? 'I' : op
+  }));
+};
+
+export const getQueryOverlap = (link: AssemblyLink) => link.queryOverlap ?? link.overlap;
+
+// Overlap fields of the reverse-complement join B(~o2) -> A(~o1), whose source is the original target
+export const getReverseOverlap = (link: AssemblyLink): Pick<AssemblyLink, 'overlap' | 'queryOverlap' | 'cigar'> => ({
+  overlap: getQueryOverlap(link),
+  queryOverlap: link.queryOverlap === undefined ? undefined : link.overlap,
+  cigar: link.cigar && invertCigar(link.cigar)
+});
@@ -0,0 +1,80 @@
+import { GraphData } from '../types';
+
+export interface GraphComponent {
+  nodeIds: string[];
+  length: number; // Total bp of its segments
+}
+
+// Connected components (links taken as undirected), largest first: by node count, then by total length
+export const findConnectedComponents = (data: GraphData): GraphComponent[] => {
+  const adj = new Map<string, Set<string>>();
+  const lengths = new Map<string, number>();
+  data.nodes.forEach(n => {
+    adj.set(n.id, new Set());
+    lengths.set(n.id, n.length);
+  });
+  data.links.forEach(l => {
+    adj.get(l.source)?.add(l.target);
+    adj.get(l.target)?.add(l.source);
+  });
+
+  const visited = new Set<string>();
+  const components: GraphComponent[] = [];
+  for (const n of data.nodes) {
+    if (visited.has(n.id)) continue;
+    const queue: string[] = [n.id];
+    const nodeIds: string[] = [];
+    let length = 0;
+    visited.add(n.id);
+    while (queue.length) {
+      const u = queue.pop() as string;
+      nodeIds.push(u);
+      length += lengths.get(u) ?? 0;
+      adj.get(u)?.forEach(v => {
+        if (!visited.has(v)) { visited.add(v); queue.push(v); }
+      });
+    }
+    components.push({ nodeIds, length });
+  }
+  return components.sort((a, b) => b.nodeIds.length - a.nodeIds.length || b.length - a.length);
+};
+
+// Space left between packed components
+export const COMPONENT_GAP = 60;
+
+export interface PackBox {
+  width: number;
+  height: number;
+}
+
+// Shelf packing: boxes go left to right in the order given (largest first), starting a new row once a row
+// is as wide as the square root of the total area allows (or the widest box). Returns each box's centre,
+// with the whole arrangement centred on `center`.
+export const packComponents = (boxes: PackBox[], gap: number, center: [number, number]): [number, number][] => {
+  if (boxes.length === 0) return [];
+  const area = boxes.reduce((sum, b) => sum + (b.width + gap) * (b.height + gap), 0);
+  // A loop rather than Math.max(...boxes): spreading hundreds of thousands of arguments overflows the stack
+  let rowWidth = Math.sqrt(area);
+  boxes.forEach(b => { rowWidth = Math.max(rowWidth, b.width + gap); });
+
+  const centers: [number, number][] = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  let packedWidth = 0;
+  boxes.forEach(box => {
+    if (x > 0 && x + box.width > rowWidth) {
+      y += rowHeight + gap;
+      x = 0;
+      rowHeight = 0;
+    }
+    centers.push([x + box.width / 2, y + box.height / 2]);
+    x += box.width + gap;
+    rowHeight = Math.max(rowHeight, box.height);
+    packedWidth = Math.max(packedWidth, x - gap);
+  });
+  const packedHeight = y + rowHeight;
+  const dx = center[0] - packedWidth / 2;
+  const dy = center[1] - packedHeight / 2;
+  return centers.map(([cx, cy]) => [cx + dx, cy + dy]);
+};
@@ -0,0 +1,51 @@
+import { AssemblyLink, DiagnosticCode, DiagnosticSeverity, ParseDiagnostic } from '../types';
+
+// Problems found while parsing, shared by every graph format so strict mode judges them all alike
+
+// A broken file can produce a problem on every line; past this many only a count is kept
+const MAX_DIAGNOSTICS = 1000;
+
+export interface DiagnosticLog {
+  report: (severity: DiagnosticSeverity, code: DiagnosticCode, message: string, line: number) => void;
+  // Links to segments that never appear are reported and dropped, so the layout only sees real nodes.
+  // `linkLines` holds the source line of each link.
+  dropDanglingLinks: (links: AssemblyLink[], linkLines: number[], hasSegment: (id: string) => boolean) => AssemblyLink[];
+  // Everything reported, by line, with a note of how many were left out
+  list: () => ParseDiagnostic[];
+}
+
+export const createDiagnosticLog = (): DiagnosticLog => {
+  const diagnostics: ParseDiagnostic[] = [];
+  let dropped = 0;
+
+  const report: DiagnosticLog['report'] = (severity, code, message, line) => {
+    if (diagnostics.length >= MAX_DIAGNOSTICS) {
+      dropped++;
+      return;
+    }
+    diagnostics.push({ line, severity, code, message });
+  };
+
+  return {
+    report,
+    dropDanglingLinks: (links, linkLines, hasSegment) => links.filter((link, i) => {
+      const missing = [link.source, link.target].filter(id => !hasSegment(id));
+      if (missing.length === 0) return true;
+      const names = Array.from(new Set(missing)).map(id => `"${id}"`).join(' and ');
+      report('error', 'dangling-link', `Link refers to missing segment ${names}; link dropped`, linkLines[i] ?? 0);
+      return false;
+    }),
+    list: () => {
+      const sorted = [...diagnostics].sort((a, b) => a.line - b.line);
+      if (dropped > 0) {
+        sorted.push({
+          line: 0,
+          severity: 'warning',
+          code: 'truncated',
+          message: `${dropped} more problems were found but not listed`
+        });
+      }
+      return sorted;
+    }
+  };
+};
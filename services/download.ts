@@ -0,0 +1,11 @@
+// Saves `content` as a file through a temporary link, the way every export in the app hands files to the browser
+export const downloadBlob = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,126 @@
+import { LineParser, AssemblyNode, AssemblyLink, Orientation } from '../types';
+import { flipOrientation } from './orientation';
+import { createDiagnosticLog } from './diagnostics';
+
+// SPAdes names every edge EDGE_<id>_length_<bp>_cov_<depth>; a trailing ' marks the reverse complement
+const SPADES_NAME = /^EDGE_(.+)_length_(\d+)_cov_([\d.eE+-]+)$/;
+
+interface FastgName {
+  id: string;
+  orientation: Orientation;
+  length?: number;
+  coverage?: number;
+}
+
+const parseName = (raw: string): FastgName => {
+  const trimmed = raw.trim();
+  const orientation: Orientation = trimmed.endsWith("'") ? '-' : '+';
+  const name = orientation === '-' ? trimmed.slice(0, -1) : trimmed;
+  const m = name.match(SPADES_NAME);
+  if (m) {
+    return { id: m[1], orientation, length: parseInt(m[2], 10), coverage: parseFloat(m[3]) };
+  }
+  return { id: name, orientation };
+};
+
+// Header: ">NAME[:NEIGHBOUR,NEIGHBOUR...];"
+const parseHeader = (line: string) => {
+  const body = line.slice(1).replace(/;\s*$/, '');
+  const colon = body.indexOf(':');
+  const self = parseName(colon === -1 ? body : body.slice(0, colon));
+  const neighbours = colon === -1 ? [] : body.slice(colon + 1).split(',').filter(Boolean).map(parseName);
+  return { self, neighbours };
+};
+
+export const createFASTGParser = (): LineParser => {
+  const nodes: AssemblyNode[] = [];
+  const links: AssemblyLink[] = [];
+  const nodeMap = new Map<string, AssemblyNode>();
+  const linkKeys = new Set<string>();
+  const linkLines: number[] = [];
+  // Strands whose header has been read, to tell a repeated header from the usual pair
+  const strandsSeen = new Set<string>();
+  const diagnostics = createDiagnosticLog();
+  let lineNumber = 0;
+  let inRecord = false;
+
+  // Sequence lines belong to the most recent header; only the '+' strand's sequence is kept
+  let current: AssemblyNode | null = null;
+  let currentLine = 0;
+  let sequenceParts: string[] = [];
+  const flushSequence = () => {
+    if (current && sequenceParts.length > 0) {
+      current.sequence = sequenceParts.join('');
+      if (!current.length) current.length = current.sequence.length;
+      else if (current.length !== current.sequence.length) {
+        diagnostics.report('warning', 'length-mismatch',
+          `Edge "${current.id}" is named as ${current.length} bp but its sequence has ${current.sequence.length}`, currentLine);
+      }
+    }
+    current = null;
+    sequenceParts = [];
+  };
+
+  const parseLine = (raw: string) => {
+    lineNumber++;
+    const line = raw.trim();
+
+    if (line.startsWith('>')) {
+      flushSequence();
+      const { self, neighbours } = parseHeader(line);
+      if (!self.id) {
+        diagnostics.report('error', 'malformed-record', 'Header has no edge name; record skipped', lineNumber);
+        inRecord = false;
+        return;
+      }
+      inRecord = true;
+      const strand = `${self.id}${self.orientation}`;
+      if (strandsSeen.has(strand)) {
+        diagnostics.report('error', 'duplicate-segment', `Edge "${strand}" is defined more than once; keeping the first definition`, lineNumber);
+        return;
+      }
+      strandsSeen.add(strand);
+
+      let node = nodeMap.get(self.id);
+      if (!node) {
+        node = { id: self.id, length: self.length ?? 0, coverage: self.coverage ?? 1.0 };
+        nodes.push(node);
+        nodeMap.set(self.id, node);
+      }
+      if (self.orientation === '+') {
+        current = node;
+        currentLine = lineNumber;
+      }
+
+      // Every join is listed from both strands (A+ -> B+ and B- -> A-), so keep only one of them
+      neighbours.forEach(next => {
+        const key = `${self.id}${self.orientation}>${next.id}${next.orientation}`;
+        const rcKey = `${next.id}${flipOrientation(next.orientation)}>${self.id}${flipOrientation(self.orientation)}`;
+        if (linkKeys.has(key) || linkKeys.has(rcKey)) return;
+        linkKeys.add(key);
+        linkLines.push(lineNumber);
+        links.push({
+          id: `link_${self.id}_${next.id}_${links.length}`,
+          source: self.id,
+          target: next.id,
+          sourceOrientation: self.orientation,
+          targetOrientation: next.orientation,
+          overlap: 0
+        });
+      });
+    } else if (line && current) {
+      sequenceParts.push(line);
+    } else if (line && !inRecord) {
+      diagnostics.report('error', 'malformed-record', 'Sequence line outside any record; line skipped', lineNumber);
+    }
+  };
+
+  return {
+    parseLine,
+    finish: () => {
+      flushSequence();
+      const kept = diagnostics.dropDanglingLinks(links, linkLines, id => nodeMap.has(id));
+      return { nodes, links: kept, diagnostics: diagnostics.list() };
+    }
+  };
+};
@@ -1,150 +1,379 @@
-import { GraphData, AssemblyNode, AssemblyLink } from '../types';
-
-export const parseGFA = (gfaContent: string): GraphData => {
-  const nodes: AssemblyNode[] = [];
-  const links: AssemblyLink[] = [];
-  const nodeMap = new Map<string, AssemblyNode>();
-
-  const lines = gfaContent.split('\n');
-
-  lines.forEach(line => {
-    const parts = line.trim().split('\t');
-    if (parts.length === 0) return;
-
-    const type = parts[0];
-
-    if (type === 'S') {
-      // Segment: S <Name> <Sequence> [Tags]
-      const id = parts[1];
-      const sequence = parts[2] === '*' ? undefined : parts[2];
-      
-      // Default values
-      let length = sequence ? sequence.length : 0;
-      let coverage = 1.0;
-
-      // Parse Tags (Format: TAG:TYPE:VALUE)
-      // Common tags: LN:i:length, DP:f:depth, KC:i:kmer_count
-      for (let i = 3; i < parts.length; i++) {
-        const tagParts = parts[i].split(':');
-        if (tagParts.length >= 3) {
-          const tagName = tagParts[0];
-          const tagType = tagParts[1];
-          const tagValue = tagParts[2];
-
-          if (tagName === 'LN' && tagType === 'i') {
-            length = parseInt(tagValue, 10);
-          } else if (tagName === 'DP' && tagType === 'f') {
-            coverage = parseFloat(tagValue);
-          } else if (tagName === 'KC' && tagType === 'i') {
-            // Estimate coverage from Kmer count if DP not available
-            const kc = parseInt(tagValue, 10);
-            if (coverage === 1.0 && length > 0) {
-               coverage = kc / length; 
-            }
-          }
-        }
-      }
+import { GraphData, LineParser, GfaTag, CigarOp, AssemblyNode, AssemblyLink, AssemblyPath, AssemblyGroup, PathStep, Orientation, DiagnosticSeverity, DiagnosticCode } from '../types';
+import { parseTag } from './tags';
+import { parseCigar, getCigarOverlap, invertCigar } from './cigar';
+import { createDiagnosticLog, DiagnosticLog } from './diagnostics';
 
-      const node: AssemblyNode = { id, length, coverage, sequence };
-      nodes.push(node);
-      nodeMap.set(id, node);
-    } else if (type === 'L') {
-      // Link: L <From> <FromOri> <To> <ToOri> <Overlap>
-      if (parts.length >= 6) {
-        const source = parts[1];
-        const target = parts[3];
-        const overlapStr = parts[5];
-        
-        let overlap = 0;
-        const overlapMatch = overlapStr.match(/(\d+)/);
-        if (overlapMatch) {
-          overlap = parseInt(overlapMatch[1], 10);
-        }
+const parseOrientation = (value: string): Orientation => (value === '-' ? '-' : '+');
 
-        links.push({
-          id: `link_${source}_${target}_${links.length}`,
-          source,
-          target,
-          overlap
-        });
-      }
+const GFA1_RECORDS = new Set(['H', 'S', 'L', 'C', 'P', 'W']);
+const GFA2_RECORDS = new Set(['H', 'S', 'E', 'G', 'F', 'O', 'U']);
+
+// GFA2 alignments may also be a trace: comma-separated integers
+const TRACE = /^\d+(,\d+)*$/;
+
+// GFA2 groups before their references are resolved (members may be defined later in the file)
+interface RawGroup {
+  id: string;
+  ordered: boolean;
+  refs: string[];
+}
+
+// Accumulated records while walking the file line by line
+interface ParseState {
+  version: 1 | 2; // Switched to 2 by an "H VN:Z:2.0" header
+  nodes: AssemblyNode[];
+  links: AssemblyLink[];
+  paths: AssemblyPath[];
+  nodeMap: Map<string, AssemblyNode>;
+  // GFA2 only
+  edgeSegments: Map<string, string[]>;
+  rawGroups: RawGroup[];
+  fragmentCounts: Map<string, number>;
+  lineNumber: number;
+  linkLines: number[]; // Source line of each entry in links, for reporting dangling endpoints later
+  diagnostics: DiagnosticLog;
+}
+
+const createParseState = (): ParseState => ({
+  version: 1,
+  nodes: [],
+  links: [],
+  paths: [],
+  nodeMap: new Map(),
+  edgeSegments: new Map(),
+  rawGroups: [],
+  fragmentCounts: new Map(),
+  lineNumber: 0,
+  linkLines: [],
+  diagnostics: createDiagnosticLog()
+});
+
+const report = (state: ParseState, severity: DiagnosticSeverity, code: DiagnosticCode, message: string, line = state.lineNumber) => {
+  state.diagnostics.report(severity, code, message, line);
+};
+
+// Later duplicates are reported and skipped, so every id refers to exactly one segment
+const addSegment = (state: ParseState, node: AssemblyNode) => {
+  if (state.nodeMap.has(node.id)) {
+    report(state, 'error', 'duplicate-segment', `Segment "${node.id}" is defined more than once; keeping the first definition`);
+    return;
+  }
+  state.nodes.push(node);
+  state.nodeMap.set(node.id, node);
+};
+
+const addLink = (state: ParseState, link: AssemblyLink) => {
+  state.links.push(link);
+  state.linkLines.push(state.lineNumber);
+};
+
+// CIGAR ops of an alignment field ("*" and GFA2 traces give none), or null once an invalid one is reported
+const parseAlignment = (state: ParseState, value: string, consequence: string, allowTrace = false): CigarOp[] | null => {
+  const ops = parseCigar(value);
+  if (ops) return ops;
+  if (allowTrace && TRACE.test(value)) return [];
+  report(state, 'error', 'invalid-cigar', `Invalid alignment "${value}"; ${consequence}`);
+  return null;
+};
+
+// Optional fields from index `from` onwards; all typed tags are kept, malformed ones are reported
+const parseTags = (state: ParseState, parts: string[], from: number): Record<string, GfaTag> | undefined => {
+  let tags: Record<string, GfaTag> | undefined;
+  for (let i = from; i < parts.length; i++) {
+    if (!parts[i]) continue;
+    const parsed = parseTag(parts[i]);
+    if (!parsed) {
+      report(state, 'warning', 'malformed-tag', `Optional field "${parts[i]}" is not a valid TAG:TYPE:VALUE tag; ignored`);
+      continue;
     }
-  });
+    tags = tags ?? {};
+    tags[parsed.name] = parsed.tag;
+  }
+  return tags;
+};
+
+const checkFieldCount = (state: ParseState, parts: string[], min: number, record: string) => {
+  if (parts.length >= min) return true;
+  report(state, 'error', 'malformed-record', `${record} record has ${parts.length} fields, expected at least ${min}; line skipped`);
+  return false;
+};
+
+// P path segment list: "1+,2-,3+"
+const parsePathSteps = (segmentNames: string): PathStep[] => {
+  return segmentNames
+    .split(',')
+    .filter(Boolean)
+    .map(step => ({
+      segmentId: step.slice(0, -1),
+      orientation: parseOrientation(step[step.length - 1])
+    }));
+};
+
+// W walk: ">s1<s2>s3", where '<' means the segment is traversed as its reverse complement
+const parseWalkSteps = (walk: string): PathStep[] => {
+  const steps: PathStep[] = [];
+  const re = /([><])([^><]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(walk)) !== null) {
+    steps.push({ segmentId: m[2], orientation: m[1] === '<' ? '-' : '+' });
+  }
+  return steps;
+};
+
+const parseHeader = (parts: string[], state: ParseState) => {
+  for (let i = 1; i < parts.length; i++) {
+    if (parts[i].startsWith('VN:Z:2')) state.version = 2;
+  }
+};
 
-  return { nodes, links };
+// "sid+" / "sid-" reference as used by GFA2 E, G, F and O records
+const parseSignedRef = (ref: string): { id: string; orientation: Orientation } => {
+  const last = ref[ref.length - 1];
+  if (last === '+' || last === '-') return { id: ref.slice(0, -1), orientation: last };
+  return { id: ref, orientation: '+' };
 };
 
-export const parseGFAAsync = async (
-  gfaContent: string,
-  onProgress?: (done: number, total: number) => void,
-  signal?: AbortSignal
-): Promise<GraphData> => {
-  const nodes: AssemblyNode[] = [];
-  const links: AssemblyLink[] = [];
-  const nodeMap = new Map<string, AssemblyNode>();
-
-  const lines = gfaContent.split('\n');
-  const total = lines.length;
-  const batch = 5000;
-
-  for (let i = 0; i < total; i++) {
-    if (signal?.aborted) {
-      const err = new Error('Aborted');
-      (err as any).name = 'AbortError';
-      throw err;
+// GFA2 positions are plain integers, with a trailing '$' marking the end of the segment
+const parsePosition = (pos: string) => ({
+  value: parseInt(pos, 10),
+  atEnd: pos.endsWith('$')
+});
+
+const parseGFA2Line = (parts: string[], state: ParseState) => {
+  const type = parts[0];
+
+  if (type === 'S') {
+    // Segment: S <sid> <slen> <sequence> [Tags]
+    if (!checkFieldCount(state, parts, 4, 'S')) return;
+    const id = parts[1];
+    const sequence = parts[3] === '*' ? undefined : parts[3];
+    const declaredLength = parseInt(parts[2], 10);
+    const length = Number.isNaN(declaredLength) ? (sequence?.length ?? 0) : declaredLength;
+    if (sequence && !Number.isNaN(declaredLength) && declaredLength !== sequence.length) {
+      report(state, 'warning', 'length-mismatch', `Segment "${id}" declares length ${declaredLength} but its sequence has ${sequence.length} bp`);
     }
-    const line = lines[i];
-    const parts = line.trim().split('\t');
-    if (parts.length === 0) continue;
-
-    const type = parts[0];
-
-    if (type === 'S') {
-      const id = parts[1];
-      const sequence = parts[2] === '*' ? undefined : parts[2];
-      let length = sequence ? sequence.length : 0;
-      let coverage = 1.0;
-      for (let j = 3; j < parts.length; j++) {
-        const tagParts = parts[j].split(':');
-        if (tagParts.length >= 3) {
-          const tagName = tagParts[0];
-          const tagType = tagParts[1];
-          const tagValue = tagParts[2];
-          if (tagName === 'LN' && tagType === 'i') {
-            length = parseInt(tagValue, 10);
-          } else if (tagName === 'DP' && tagType === 'f') {
-            coverage = parseFloat(tagValue);
-          } else if (tagName === 'KC' && tagType === 'i') {
-            const kc = parseInt(tagValue, 10);
-            if (coverage === 1.0 && length > 0) {
-              coverage = kc / length;
-            }
-          }
-        }
+    let coverage = 1.0;
+    const tags = parseTags(state, parts, 4);
+    if (tags?.DP?.type === 'f') {
+      coverage = tags.DP.value as number;
+    } else if (tags?.KC?.type === 'i' && length > 0) {
+      coverage = (tags.KC.value as number) / length;
+    }
+    addSegment(state, { id, length, coverage, sequence, tags });
+  } else if (type === 'E') {
+    // Edge: E <eid> <sid1[+-]> <sid2[+-]> <beg1> <end1> <beg2> <end2> <alignment>
+    if (!checkFieldCount(state, parts, 9, 'E')) return;
+    const cigar = parseAlignment(state, parts[8], 'overlap taken from the edge positions', true);
+    const eid = parts[1];
+    const a = parseSignedRef(parts[2]);
+    const b = parseSignedRef(parts[3]);
+    const beg1 = parsePosition(parts[4]);
+    const end1 = parsePosition(parts[5]);
+    const beg2 = parsePosition(parts[6]);
+    const end2 = parsePosition(parts[7]);
+    if (eid !== '*') state.edgeSegments.set(eid, [a.id, b.id]);
+
+    // Only dovetail overlaps (one segment's end on the other's end) become links; containments are skipped
+    const aEnd = end1.atEnd;
+    const aStart = beg1.value === 0 && !aEnd;
+    const bEnd = end2.atEnd;
+    const bStart = beg2.value === 0 && !bEnd;
+    const sameStrand = a.orientation === b.orientation;
+    const aOverlap = Math.max(0, end1.value - beg1.value);
+    const bOverlap = Math.max(0, end2.value - beg2.value);
+    const ops = cigar && cigar.length > 0 ? cigar : undefined;
+    const id = eid !== '*' ? eid : `edge_${a.id}_${b.id}_${state.links.length}`;
+
+    // The alignment takes sid1 as reference, so a link starting from sid2 sees it inverted
+    let link: Omit<AssemblyLink, 'id' | 'overlap'> | null = null;
+    let fromB = false;
+    if (sameStrand && aEnd && bStart) {
+      link = { source: a.id, target: b.id, sourceOrientation: '+', targetOrientation: '+' };
+    } else if (sameStrand && aStart && bEnd) {
+      link = { source: b.id, target: a.id, sourceOrientation: '+', targetOrientation: '+' };
+      fromB = true;
+    } else if (!sameStrand && aEnd && bEnd) {
+      link = { source: a.id, target: b.id, sourceOrientation: '+', targetOrientation: '-' };
+    } else if (!sameStrand && aStart && bStart) {
+      link = { source: a.id, target: b.id, sourceOrientation: '-', targetOrientation: '+' };
+    }
+    if (link) {
+      addLink(state, {
+        id,
+        ...link,
+        overlap: fromB ? bOverlap : aOverlap,
+        queryOverlap: fromB ? aOverlap : bOverlap,
+        cigar: ops && (fromB ? invertCigar(ops) : ops),
+        tags: parseTags(state, parts, 9)
+      });
+    }
+  } else if (type === 'G') {
+    // Gap: G <gid> <sid1[+-]> <sid2[+-]> <dist> (* | <var>)
+    if (!checkFieldCount(state, parts, 5, 'G')) return;
+    const a = parseSignedRef(parts[2]);
+    const b = parseSignedRef(parts[3]);
+    const distance = parseInt(parts[4], 10);
+    addLink(state, {
+      id: parts[1] !== '*' ? parts[1] : `gap_${a.id}_${b.id}_${state.links.length}`,
+      source: a.id,
+      target: b.id,
+      sourceOrientation: a.orientation,
+      targetOrientation: b.orientation,
+      overlap: 0,
+      kind: 'gap',
+      gapDistance: Number.isNaN(distance) ? undefined : distance,
+      tags: parseTags(state, parts, 6)
+    });
+  } else if (type === 'F') {
+    // Fragment: F <sid> <external[+-]> <sbeg> <send> <fbeg> <fend> <alignment>
+    if (!checkFieldCount(state, parts, 3, 'F')) return;
+    state.fragmentCounts.set(parts[1], (state.fragmentCounts.get(parts[1]) ?? 0) + 1);
+  } else if (type === 'O' || type === 'U') {
+    // Group: O|U <oid> <references separated by spaces>
+    if (!checkFieldCount(state, parts, 3, type)) return;
+    state.rawGroups.push({ id: parts[1], ordered: type === 'O', refs: parts[2].split(' ').filter(Boolean) });
+  }
+};
+
+// Flattens group references (segments, edges or other groups) into the segment ids they cover
+const resolveGroups = (state: ParseState): AssemblyGroup[] => {
+  const rawById = new Map(state.rawGroups.map(g => [g.id, g]));
+  const resolve = (group: RawGroup, visiting: Set<string>): string[] => {
+    const out: string[] = [];
+    group.refs.forEach(ref => {
+      const { id } = parseSignedRef(ref);
+      if (state.nodeMap.has(id)) {
+        out.push(id);
+      } else if (state.edgeSegments.has(id)) {
+        out.push(...state.edgeSegments.get(id)!);
+      } else if (rawById.has(id) && !visiting.has(id)) {
+        visiting.add(id);
+        out.push(...resolve(rawById.get(id)!, visiting));
+        visiting.delete(id);
       }
-      const node: AssemblyNode = { id, length, coverage, sequence };
-      nodes.push(node);
-      nodeMap.set(id, node);
-    } else if (type === 'L') {
-      if (parts.length >= 6) {
-        const source = parts[1];
-        const target = parts[3];
-        const overlapStr = parts[5];
-        let overlap = 0;
-        const overlapMatch = overlapStr.match(/(\d+)/);
-        if (overlapMatch) {
-          overlap = parseInt(overlapMatch[1], 10);
+    });
+    return out;
+  };
+  return state.rawGroups.map(group => ({
+    id: group.id,
+    ordered: group.ordered,
+    segmentIds: Array.from(new Set(resolve(group, new Set([group.id]))))
+  }));
+};
+
+const parseLine = (line: string, state: ParseState) => {
+  state.lineNumber++;
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) return;
+  const parts = trimmed.split('\t');
+
+  const type = parts[0];
+  const known = state.version === 2 ? GFA2_RECORDS : GFA1_RECORDS;
+  if (!known.has(type)) {
+    report(state, 'warning', 'unknown-record', `Unknown GFA${state.version} record type "${type}"; line ignored`);
+    return;
+  }
+
+  if (type === 'H') {
+    parseHeader(parts, state);
+    return;
+  }
+  if (state.version === 2) {
+    parseGFA2Line(parts, state);
+    return;
+  }
+
+  if (type === 'S') {
+    // Segment: S <Name> <Sequence> [Tags]
+    if (!checkFieldCount(state, parts, 3, 'S')) return;
+    const id = parts[1];
+    const sequence = parts[2] === '*' ? undefined : parts[2];
+
+    // Default values
+    let length = sequence ? sequence.length : 0;
+    let coverage = 1.0;
+
+    // Parse Tags (Format: TAG:TYPE:VALUE); all of them are kept on the node
+    // Common tags: LN:i:length, DP:f:depth, KC:i:kmer_count
+    const tags = parseTags(state, parts, 3);
+    Object.entries(tags ?? {}).forEach(([tagName, tag]) => {
+      if (tagName === 'LN' && tag.type === 'i') {
+        length = tag.value as number;
+        if (sequence && length !== sequence.length) {
+          report(state, 'warning', 'length-mismatch', `Segment "${id}" has LN:i:${length} but its sequence has ${sequence.length} bp`);
+        }
+      } else if (tagName === 'DP' && tag.type === 'f') {
+        coverage = tag.value as number;
+      } else if (tagName === 'KC' && tag.type === 'i') {
+        // Estimate coverage from Kmer count if DP not available
+        if (coverage === 1.0 && length > 0) {
+          coverage = (tag.value as number) / length;
         }
-        links.push({ id: `link_${source}_${target}_${links.length}`, source, target, overlap });
       }
-    }
+    });
 
-    if (i % batch === 0) {
-      onProgress?.(i, total);
-      await new Promise(requestAnimationFrame);
+    addSegment(state, { id, length, coverage, sequence, tags });
+  } else if (type === 'L') {
+    // Link: L <From> <FromOri> <To> <ToOri> <Overlap>
+    if (checkFieldCount(state, parts, 6, 'L')) {
+      const source = parts[1];
+      const sourceOrientation = parseOrientation(parts[2]);
+      const target = parts[3];
+      const targetOrientation = parseOrientation(parts[4]);
+      const cigar = parseAlignment(state, parts[5], 'overlap set to 0') ?? [];
+      const { reference, query } = getCigarOverlap(cigar);
+
+      addLink(state, {
+        id: `link_${source}_${target}_${state.links.length}`,
+        source,
+        target,
+        sourceOrientation,
+        targetOrientation,
+        overlap: reference,
+        queryOverlap: query,
+        cigar: cigar.length > 0 ? cigar : undefined,
+        tags: parseTags(state, parts, 6)
+      });
+    }
+  } else if (type === 'P') {
+    // Path: P <PathName> <SegmentNames> <Overlaps>
+    if (checkFieldCount(state, parts, 3, 'P')) {
+      state.paths.push({ id: parts[1], kind: 'P', steps: parsePathSteps(parts[2]) });
+    }
+  } else if (type === 'W') {
+    // Walk (GFA 1.1): W <SampleId> <HapIndex> <SeqId> <SeqStart> <SeqEnd> <Walk>
+    if (checkFieldCount(state, parts, 7, 'W')) {
+      const [, sample, haplotype, seqId, seqStart, seqEnd, walk] = parts;
+      const range = seqStart !== '*' && seqEnd !== '*' ? `:${seqStart}-${seqEnd}` : '';
+      state.paths.push({
+        id: `${sample}#${haplotype}#${seqId}${range}`,
+        kind: 'W',
+        steps: parseWalkSteps(walk)
+      });
     }
   }
+};
+
+const toGraphData = (state: ParseState): GraphData => {
+  state.fragmentCounts.forEach((count, id) => {
+    const node = state.nodeMap.get(id);
+    if (node) node.fragmentCount = count;
+  });
+  const links = state.diagnostics.dropDanglingLinks(state.links, state.linkLines, id => state.nodeMap.has(id));
+  const groups = resolveGroups(state);
+  return {
+    nodes: state.nodes,
+    links,
+    paths: state.paths,
+    groups,
+    diagnostics: state.diagnostics.list()
+  };
+};
 
-  onProgress?.(total, total);
-  return { nodes, links };
+export const createGFAParser = (): LineParser => {
+  const state = createParseState();
+  return {
+    parseLine: line => parseLine(line, state),
+    finish: () => toGraphData(state)
+  };
 };
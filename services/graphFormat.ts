@@ -0,0 +1,79 @@
+import { GraphFileInfo, GraphFormat, LineParser } from '../types';
+import { createGFAParser } from './gfaParser';
+import { createFASTGParser } from './fastgParser';
+import { createLastGraphParser } from './lastGraphParser';
+
+export const GRAPH_FORMAT_LABELS: Record<GraphFormat, string> = {
+  gfa: 'GFA',
+  fastg: 'FASTG',
+  lastgraph: 'LastGraph'
+};
+
+// Enough of the file to sniff its format without reading all of it
+const FORMAT_SNIFF_BYTES = 65536;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const formatFromFileName = (fileName: string): GraphFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.fastg')) return 'fastg';
+  if (name.endsWith('lastgraph')) return 'lastgraph';
+  if (name.endsWith('.gfa') || name.endsWith('.gfa1') || name.endsWith('.gfa2')) return 'gfa';
+  return null;
+};
+
+// Looks at the start of the file when the file name doesn't tell us the format
+const formatFromContent = (head: string): GraphFormat => {
+  const firstLine = head.split('\n').find(line => line.trim()) ?? '';
+  if (firstLine.startsWith('>')) return 'fastg';
+  // LastGraph opens with "<nodes> <sequences> <k>" and continues with NODE records
+  if (/^\d+\s+\d+\s+\d+/.test(firstLine) && /\nNODE\s/.test(head)) return 'lastgraph';
+  return 'gfa';
+};
+
+export const detectGraphFormat = (fileName: string, head: string): GraphFormat => {
+  return formatFromFileName(fileName) ?? formatFromContent(head);
+};
+
+const isGzip = async (file: Blob) => {
+  const magic = new Uint8Array(await file.slice(0, GZIP_MAGIC.length).arrayBuffer());
+  return GZIP_MAGIC.every((byte, i) => magic[i] === byte);
+};
+
+// First bytes of the (decompressed) text; the rest of a gzip stream is never inflated here
+const readHead = async (file: Blob, gzip: boolean): Promise<string> => {
+  if (!gzip) return file.slice(0, FORMAT_SNIFF_BYTES).text();
+  const reader = file.stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const decoder = new TextDecoder();
+  let head = '';
+  try {
+    while (head.length < FORMAT_SNIFF_BYTES) {
+      const chunk = await reader.read();
+      if (chunk.done) break;
+      head += decoder.decode(chunk.value, { stream: true });
+    }
+  } catch {
+    // A corrupt stream still gets sniffed on whatever was inflated; parsing will report the error
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return head;
+};
+
+// Gzip is recognised by its magic bytes, not the name; "graph.gfa.gz" is then judged as "graph.gfa"
+export const detectGraphFile = async (file: File): Promise<GraphFileInfo> => {
+  const gzip = await isGzip(file);
+  const name = gzip ? file.name.replace(/\.gz$/i, '') : file.name;
+  const head = await readHead(file, gzip);
+  return { format: detectGraphFormat(name, head), gzip };
+};
+
+export const createLineParser = (format: GraphFormat): LineParser => {
+  switch (format) {
+    case 'fastg':
+      return createFASTGParser();
+    case 'lastgraph':
+      return createLastGraphParser();
+    default:
+      return createGFAParser();
+  }
+};
@@ -1,6 +1,7 @@
 import { GraphData, AssemblyNode, AssemblyLink } from '../types';
 
-export const generateMockAssemblyGraph = (nodeCount: number = 40): GraphData => {
+// `random` is Math.random by default; pass a seeded one (services/random) to get the same graph every time
+export const generateMockAssemblyGraph = (nodeCount: number = 40, random: () => number = Math.random): GraphData => {
   const nodes: AssemblyNode[] = [];
   const links: AssemblyLink[] = [];
 
@@ -10,8 +11,8 @@ export const generateMockAssemblyGraph = (nodeCount: number = 40): GraphData =>
 
   for (let i = 0; i < backboneLength; i++) {
     const id = `ctg_${i + 1}`;
-    const length = Math.floor(Math.random() * 40000) + 5000;
-    const coverage = 40 + (Math.random() * 20 - 10);
+    const length = Math.floor(random() * 40000) + 5000;
+    const coverage = 40 + (random() * 20 - 10);
     
     nodes.push({ id, length, coverage });
 
@@ -20,6 +21,8 @@ export const generateMockAssemblyGraph = (nodeCount: number = 40): GraphData =>
         id: `lnk_${i}`,
         source: prevNodeId,
         target: id,
+        sourceOrientation: '+',
+        targetOrientation: '+',
         overlap: 55
       });
     }
@@ -27,11 +30,13 @@ export const generateMockAssemblyGraph = (nodeCount: number = 40): GraphData =>
   }
 
   // Close the loop with 20% probability
-  if (prevNodeId && Math.random() > 0.8) {
+  if (prevNodeId && random() > 0.8) {
      links.push({
         id: `lnk_close`,
         source: prevNodeId,
         target: nodes[0].id,
+        sourceOrientation: '+',
+        targetOrientation: '+',
         overlap: 55
       });
   }
@@ -42,26 +47,30 @@ export const generateMockAssemblyGraph = (nodeCount: number = 40): GraphData =>
     const id = `tangle_${i + 1}`;
     nodes.push({
       id,
-      length: Math.floor(Math.random() * 2000) + 500, // Short repetitive elements
-      coverage: 150 + Math.random() * 50
+      length: Math.floor(random() * 2000) + 500, // Short repetitive elements
+      coverage: 150 + random() * 50
     });
 
     // Connect to random backbone node
-    const targetIdx = Math.floor(Math.random() * backboneLength);
+    const targetIdx = Math.floor(random() * backboneLength);
     links.push({
       id: `lnk_t_${i}`,
       source: `ctg_${targetIdx + 1}`,
       target: id,
+      sourceOrientation: '+',
+      targetOrientation: '+',
       overlap: 55
     });
     
     // Maybe connect back to another part
-    if (Math.random() > 0.5) {
+    if (random() > 0.5) {
        const targetIdx2 = (targetIdx + 1) % backboneLength;
        links.push({
         id: `lnk_t_back_${i}`,
         source: id,
         target: `ctg_${targetIdx2 + 1}`,
+        sourceOrientation: '+',
+        targetOrientation: '+',
         overlap: 55
       });
     }
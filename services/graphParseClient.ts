@@ -0,0 +1,51 @@
+import { GraphData, GraphFileInfo } from '../types';
+import { decodeGraphData, ParseWorkerMessage, ParseWorkerRequest } from './graphTransfer';
+
+// Parses a graph file in a dedicated worker. Aborting the signal terminates the worker and
+// rejects with an AbortError, matching the old in-thread parser's cancel behaviour.
+export const parseGraphFile = (
+  file: Blob,
+  info: GraphFileInfo,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<GraphData> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./graphParseWorker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      const err = new Error('Aborted');
+      (err as any).name = 'AbortError';
+      reject(err);
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+      } else if (message.type === 'done') {
+        cleanup();
+        resolve(decodeGraphData(message.graph));
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Graph parser worker failed'));
+    };
+
+    const request: ParseWorkerRequest = { file, ...info };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,54 @@
+import { createLineParser } from './graphFormat';
+import { encodeGraphData, ParseWorkerMessage, ParseWorkerRequest } from './graphTransfer';
+
+const post = (message: ParseWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Reads the file as a byte stream and feeds complete lines to the parser, so the whole
+// text never has to sit in memory at once
+const parseFile = async ({ file, format, gzip }: ParseWorkerRequest) => {
+  const parser = createLineParser(format);
+  const decoder = new TextDecoder();
+  // Progress counts bytes of the file itself, i.e. compressed bytes for gzip input
+  const total = file.size;
+  let done = 0;
+  let carry = '';
+  let lastProgress = 0;
+
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      done += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  });
+  let stream = file.stream().pipeThrough(counter);
+  if (gzip) stream = stream.pipeThrough(new DecompressionStream('gzip'));
+  const reader = stream.getReader();
+
+  for (;;) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    const lines = (carry + decoder.decode(chunk.value, { stream: true })).split('\n');
+    carry = lines.pop() ?? '';
+    lines.forEach(line => parser.parseLine(line));
+
+    const now = performance.now();
+    if (now - lastProgress > 100) {
+      lastProgress = now;
+      post({ type: 'progress', done, total });
+    }
+  }
+  carry += decoder.decode();
+  if (carry) parser.parseLine(carry);
+
+  post({ type: 'progress', done: total, total });
+  const { graph, transfer } = encodeGraphData(parser.finish());
+  post({ type: 'done', graph }, transfer);
+};
+
+self.addEventListener('message', (event: MessageEvent<ParseWorkerRequest>) => {
+  parseFile(event.data).catch(e => {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  });
+});
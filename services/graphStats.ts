@@ -0,0 +1,110 @@
+import { AssemblyLink, GraphData } from '../types';
+import { findConnectedComponents } from './components';
+import { getLinkEnds } from './orientation';
+
+// Bases of segments whose coverage falls in [min, max); the last bin also holds everything above its max
+export interface CoverageBin {
+  min: number;
+  max: number;
+  segments: number;
+  length: number;
+}
+
+export interface GraphStats {
+  segmentCount: number;
+  linkCount: number;
+  totalLength: number;
+  n50: number;
+  n90: number;
+  l50: number; // Fewest segments whose lengths add up to half the total
+  longest: number;
+  componentCount: number;
+  deadEnds: number; // Segment ends with no link attached
+  unlinkedPercent: number; // Segments with no link at all
+  coverageHistogram: CoverageBin[];
+}
+
+// Segment ends ("ctg_5_start", "ctg_5_end") some link leaves or enters the segment at; the others are dead ends
+export const getLinkedEnds = (links: AssemblyLink[]): Set<string> => {
+  const linked = new Set<string>();
+  links.forEach(link => {
+    const ends = getLinkEnds(link);
+    linked.add(`${link.source}_${ends.source}`);
+    linked.add(`${link.target}_${ends.target}`);
+  });
+  return linked;
+};
+
+// Segments kept and the links running between them; used for the shown part of the graph and the selection
+export const getSubgraph = (data: GraphData, segmentIds: Set<string>): GraphData => ({
+  nodes: data.nodes.filter(n => segmentIds.has(n.id)),
+  links: data.links.filter(l => segmentIds.has(l.source) && segmentIds.has(l.target))
+});
+
+// Shortest length among the longest segments that together cover `fraction` of the total, and how many that takes
+const getNx = (sortedLengths: number[], total: number, fraction: number) => {
+  let sum = 0;
+  for (let i = 0; i < sortedLengths.length; i++) {
+    sum += sortedLengths[i];
+    if (sum >= total * fraction) return { length: sortedLengths[i], count: i + 1 };
+  }
+  return { length: 0, count: 0 };
+};
+
+// Equal-width bins from 0 up to the coverage below which 99% of the bases lie, so a few high-copy repeats
+// don't flatten the rest of the histogram
+const getCoverageHistogram = (data: GraphData, binCount: number): CoverageBin[] => {
+  if (data.nodes.length === 0) return [];
+  const byCoverage = [...data.nodes].sort((a, b) => a.coverage - b.coverage);
+  const total = byCoverage.reduce((sum, n) => sum + n.length, 0);
+  let upper = byCoverage[byCoverage.length - 1].coverage;
+  let sum = 0;
+  for (const node of byCoverage) {
+    sum += node.length;
+    if (sum >= total * 0.99) { upper = node.coverage; break; }
+  }
+  const width = upper > 0 ? upper / binCount : 1;
+  const bins: CoverageBin[] = Array.from({ length: binCount }, (_, i) => ({
+    min: i * width,
+    max: (i + 1) * width,
+    segments: 0,
+    length: 0
+  }));
+  data.nodes.forEach(node => {
+    const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(node.coverage / width)))];
+    bin.segments++;
+    bin.length += node.length;
+  });
+  return bins;
+};
+
+export const getGraphStats = (data: GraphData, binCount = 20): GraphStats => {
+  const lengths = data.nodes.map(n => n.length).sort((a, b) => b - a);
+  const totalLength = lengths.reduce((sum, len) => sum + len, 0);
+  const n50 = getNx(lengths, totalLength, 0.5);
+
+  const linkedEnds = getLinkedEnds(data.links);
+  let deadEnds = 0;
+  let unlinked = 0;
+  data.nodes.forEach(node => {
+    const start = linkedEnds.has(`${node.id}_start`);
+    const end = linkedEnds.has(`${node.id}_end`);
+    if (!start) deadEnds++;
+    if (!end) deadEnds++;
+    if (!start && !end) unlinked++;
+  });
+
+  return {
+    segmentCount: data.nodes.length,
+    linkCount: data.links.length,
+    totalLength,
+    n50: n50.length,
+    n90: getNx(lengths, totalLength, 0.9).length,
+    l50: n50.count,
+    longest: lengths[0] ?? 0,
+    componentCount: findConnectedComponents(data).length,
+    deadEnds,
+    unlinkedPercent: data.nodes.length > 0 ? (unlinked / data.nodes.length) * 100 : 0,
+    coverageHistogram: getCoverageHistogram(data, binCount)
+  };
+};
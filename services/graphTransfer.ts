@@ -0,0 +1,121 @@
+import { GraphData, GraphFileInfo, AssemblyNode, AssemblyLink } from '../types';
+
+// Messages between the page and the parse worker
+export interface ParseWorkerRequest extends GraphFileInfo {
+  file: Blob;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; graph: EncodedGraph }
+  | { type: 'error'; message: string };
+
+// GraphData in columns: the numeric fields travel as transferable typed arrays instead of
+// being structured-cloned object by object. Fields outside the columns ride along in `extras`.
+export interface EncodedGraph {
+  names: string[]; // Node ids first, then any link endpoints that are not nodes
+  nodeCount: number;
+  nodeLength: Float64Array;
+  nodeCoverage: Float64Array;
+  nodeExtras: (Partial<AssemblyNode> | null)[];
+  linkIds: string[];
+  linkSource: Int32Array; // Index into names
+  linkTarget: Int32Array;
+  linkOrientation: Uint8Array; // Bit 0: source is '-', bit 1: target is '-'
+  linkOverlap: Float64Array;
+  linkExtras: (Partial<AssemblyLink> | null)[];
+  rest: Omit<GraphData, 'nodes' | 'links'>;
+}
+
+// Keeps only the fields that are actually set, so plain nodes and links cost nothing extra
+const compact = <T extends object>(value: T): T | null => {
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : null;
+};
+
+export const encodeGraphData = (data: GraphData): { graph: EncodedGraph; transfer: Transferable[] } => {
+  const { nodes, links, ...rest } = data;
+  const names: string[] = [];
+  const nameIndex = new Map<string, number>();
+  const indexOf = (name: string) => {
+    let i = nameIndex.get(name);
+    if (i === undefined) {
+      i = names.length;
+      names.push(name);
+      nameIndex.set(name, i);
+    }
+    return i;
+  };
+
+  const nodeLength = new Float64Array(nodes.length);
+  const nodeCoverage = new Float64Array(nodes.length);
+  const nodeExtras = nodes.map((node, i) => {
+    const { id, length, coverage, ...extra } = node;
+    // Node i is always names[i], even if a segment id is repeated
+    names.push(id);
+    if (!nameIndex.has(id)) nameIndex.set(id, i);
+    nodeLength[i] = length;
+    nodeCoverage[i] = coverage;
+    return compact(extra);
+  });
+
+  const linkSource = new Int32Array(links.length);
+  const linkTarget = new Int32Array(links.length);
+  const linkOrientation = new Uint8Array(links.length);
+  const linkOverlap = new Float64Array(links.length);
+  const linkIds: string[] = new Array(links.length);
+  const linkExtras = links.map((link, i) => {
+    const { id, source, target, sourceOrientation, targetOrientation, overlap, ...extra } = link;
+    linkIds[i] = id;
+    linkSource[i] = indexOf(source);
+    linkTarget[i] = indexOf(target);
+    linkOrientation[i] = (sourceOrientation === '-' ? 1 : 0) | (targetOrientation === '-' ? 2 : 0);
+    linkOverlap[i] = overlap;
+    return compact(extra);
+  });
+
+  const graph: EncodedGraph = {
+    names,
+    nodeCount: nodes.length,
+    nodeLength,
+    nodeCoverage,
+    nodeExtras,
+    linkIds,
+    linkSource,
+    linkTarget,
+    linkOrientation,
+    linkOverlap,
+    linkExtras,
+    rest
+  };
+  const transfer = [nodeLength, nodeCoverage, linkSource, linkTarget, linkOrientation, linkOverlap].map(a => a.buffer);
+  return { graph, transfer };
+};
+
+export const decodeGraphData = (graph: EncodedGraph): GraphData => {
+  const nodes: AssemblyNode[] = new Array(graph.nodeCount);
+  for (let i = 0; i < graph.nodeCount; i++) {
+    nodes[i] = {
+      id: graph.names[i],
+      length: graph.nodeLength[i],
+      coverage: graph.nodeCoverage[i],
+      ...graph.nodeExtras[i]
+    };
+  }
+
+  const links: AssemblyLink[] = new Array(graph.linkIds.length);
+  for (let i = 0; i < links.length; i++) {
+    const orientation = graph.linkOrientation[i];
+    links[i] = {
+      id: graph.linkIds[i],
+      source: graph.names[graph.linkSource[i]],
+      target: graph.names[graph.linkTarget[i]],
+      sourceOrientation: orientation & 1 ? '-' : '+',
+      targetOrientation: orientation & 2 ? '-' : '+',
+      overlap: graph.linkOverlap[i],
+      ...graph.linkExtras[i]
+    };
+  }
+
+  return { ...graph.rest, nodes, links };
+};
@@ -0,0 +1,92 @@
+import { LineParser, AssemblyNode, AssemblyLink, Orientation } from '../types';
+import { createDiagnosticLog } from './diagnostics';
+
+// Velvet writes reverse-complement node references as negative ids
+const parseSignedId = (value: string): { id: string; orientation: Orientation } => {
+  return value.startsWith('-')
+    ? { id: value.slice(1), orientation: '-' }
+    : { id: value, orientation: '+' };
+};
+
+// Velvet LastGraph:
+//   <nodes> <sequences> <k>
+//   NODE <id> <length in k-mers> <k-mer coverage> ...
+//   <ends of k-mers of the node>
+//   <ends of k-mers of the twin node>
+//   ARC <from> <to> <multiplicity>
+export const createLastGraphParser = (): LineParser => {
+  const nodes: AssemblyNode[] = [];
+  const links: AssemblyLink[] = [];
+  const linkKeys = new Set<string>();
+  const linkLines: number[] = [];
+  const nodeIds = new Set<string>();
+  const diagnostics = createDiagnosticLog();
+  let lineNumber = 0;
+
+  // After a NODE record come the node's sequence line and then its twin's, which is skipped
+  let pendingNode: AssemblyNode | null = null;
+  let linesToSkip = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (pendingNode) {
+      pendingNode.sequence = line.trim() || undefined;
+      pendingNode = null;
+      linesToSkip = 1;
+      return;
+    }
+    if (linesToSkip > 0) {
+      linesToSkip--;
+      return;
+    }
+
+    const parts = line.trim().split(/\s+/);
+    const type = parts[0];
+
+    if ((type === 'NODE' && parts.length < 4) || (type === 'ARC' && parts.length < 3)) {
+      diagnostics.report('error', 'malformed-record', `${type} record has too few fields; record skipped`, lineNumber);
+    } else if (type === 'NODE') {
+      const length = parseInt(parts[2], 10) || 0;
+      const kmerCoverage = parseFloat(parts[3]) || 0;
+      const node: AssemblyNode = {
+        id: parts[1],
+        length,
+        coverage: length > 0 ? kmerCoverage / length : 0
+      };
+      // Its sequence lines follow either way, so they are read past even for a duplicate
+      pendingNode = node;
+      if (nodeIds.has(node.id)) {
+        diagnostics.report('error', 'duplicate-segment', `Node "${node.id}" is defined more than once; keeping the first definition`, lineNumber);
+        return;
+      }
+      nodeIds.add(node.id);
+      nodes.push(node);
+    } else if (type === 'ARC') {
+      const from = parseSignedId(parts[1]);
+      const to = parseSignedId(parts[2]);
+      // ARC a b also stands for its twin, ARC -b -a
+      const key = `${parts[1]}>${parts[2]}`;
+      const twinKey = `${-parseInt(parts[2], 10)}>${-parseInt(parts[1], 10)}`;
+      if (linkKeys.has(key) || linkKeys.has(twinKey)) return;
+      linkKeys.add(key);
+      linkLines.push(lineNumber);
+      links.push({
+        id: `arc_${from.id}_${to.id}_${links.length}`,
+        source: from.id,
+        target: to.id,
+        sourceOrientation: from.orientation,
+        targetOrientation: to.orientation,
+        overlap: 0
+      });
+    }
+  };
+
+  return {
+    parseLine,
+    finish: () => ({
+      nodes,
+      links: diagnostics.dropDanglingLinks(links, linkLines, id => nodeIds.has(id)),
+      diagnostics: diagnostics.list()
+    })
+  };
+};
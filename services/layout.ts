@@ -0,0 +1,226 @@
+import { curveCatmullRom, line } from 'd3';
+import { AssemblyNode, GraphData, LayoutNode, SimulationLink, SimulationNode } from '../types';
+import { getLinkEnds } from './orientation';
+import { createRandom } from './random';
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  contigWidth: number;
+  getVisualLength: (bp: number) => number;
+  seed: number; // Same seed and graph give the same starting positions
+}
+
+export interface Layout {
+  layoutNodes: LayoutNode[];
+  layoutLookup: Map<string, LayoutNode>;
+  simNodes: SimulationNode[];
+  simLinks: SimulationLink[];
+}
+
+// Drawn length each step of a contig's chain stands for; long contigs get more steps so they can bend
+const CHAIN_STEP_LENGTH = 40;
+const MAX_CHAIN_STEPS = 10;
+
+// Number of backbone links in the chain of a contig with this drawn length (one for short contigs)
+export const getChainStepCount = (visualLength: number) =>
+  Math.max(1, Math.min(MAX_CHAIN_STEPS, Math.round(visualLength / CHAIN_STEP_LENGTH)));
+
+// Each contig is a chain of simulation nodes (more for longer contigs) joined by backbones, plus one edge
+// per link between the right contig ends. Nodes already in `previous` keep their positions, so a re-layout
+// doesn't scatter the graph; bend points that are new to a contig start on the line between its ends.
+export const buildLayout = (data: GraphData, options: LayoutOptions, previous: Map<string, SimulationNode> = new Map()): Layout => {
+  const { width, height, contigWidth, getVisualLength } = options;
+  const random = createRandom(options.seed);
+  const layoutNodes: LayoutNode[] = [];
+  const layoutLookup = new Map<string, LayoutNode>();
+  const simNodes: SimulationNode[] = [];
+  const simLinks: SimulationLink[] = [];
+
+  data.nodes.forEach(node => {
+    const length = getVisualLength(node.length);
+    const steps = getChainStepCount(length);
+    const angle = random() * Math.PI * 2;
+    const cx = width / 2 + (random() - 0.5) * 200;
+    const cy = height / 2 + (random() - 0.5) * 200;
+
+    const existingStart = previous.get(`${node.id}_start`);
+    const existingEnd = previous.get(`${node.id}_end`);
+    const x0 = existingStart?.x ?? cx - (Math.cos(angle) * length) / 2;
+    const y0 = existingStart?.y ?? cy - (Math.sin(angle) * length) / 2;
+    const x1 = existingEnd?.x ?? cx + (Math.cos(angle) * length) / 2;
+    const y1 = existingEnd?.y ?? cy + (Math.sin(angle) * length) / 2;
+
+    const chain: SimulationNode[] = [];
+    for (let i = 0; i <= steps; i++) {
+      const type = i === 0 ? 'start' : i === steps ? 'end' : 'mid';
+      const id = type === 'mid' ? `${node.id}_mid${i}` : `${node.id}_${type}`;
+      const existing = previous.get(id);
+      const t = i / steps;
+      chain.push({
+        id,
+        parentId: node.id,
+        type,
+        x: existing?.x ?? x0 + (x1 - x0) * t,
+        y: existing?.y ?? y0 + (y1 - y0) * t,
+        r: contigWidth
+      });
+    }
+
+    simNodes.push(...chain);
+    const layoutNode: LayoutNode = { ...node, start: chain[0], end: chain[steps], chain };
+    layoutNodes.push(layoutNode);
+    layoutLookup.set(node.id, layoutNode);
+
+    for (let i = 0; i < steps; i++) {
+      simLinks.push({
+        id: `${node.id}_backbone${i}`,
+        source: chain[i],
+        target: chain[i + 1],
+        type: 'backbone',
+        parentId: node.id
+      });
+    }
+  });
+
+  data.links.forEach((link, i) => {
+    const source = layoutLookup.get(link.source);
+    const target = layoutLookup.get(link.target);
+    if (!source || !target) return;
+    const ends = getLinkEnds(link);
+    simLinks.push({
+      id: `edge_${i}`,
+      source: source[ends.source],
+      target: target[ends.target],
+      type: 'edge',
+      gap: link.kind === 'gap',
+      overlap: link.overlap
+    });
+  });
+
+  return { layoutNodes, layoutLookup, simNodes, simLinks };
+};
+
+// Previous positions by simulation node id, for carrying them into the next buildLayout
+export const indexSimNodes = (simNodes: SimulationNode[]) => new Map(simNodes.map(n => [n.id, n]));
+
+const isPlaced = (node: LayoutNode) => node.chain.every(n => n.x !== undefined && n.y !== undefined);
+
+// Smooth curve through the chain; with no bend points it is the straight line between the ends
+const contigLine = line<SimulationNode>()
+  .x(n => n.x!)
+  .y(n => n.y!)
+  .curve(curveCatmullRom.alpha(0.5));
+
+export const getContigPath = (node: LayoutNode) => {
+  if (!isPlaced(node)) return "";
+  return contigLine(node.chain) ?? "";
+};
+
+// Adds the same curve as getContigPath to a canvas path; the caller begins and strokes it
+export const traceContigPath = (node: LayoutNode, context: CanvasRenderingContext2D) => {
+  if (!isPlaced(node)) return;
+  contigLine.context(context)(node.chain);
+  contigLine.context(null);
+};
+
+// Middle of the chain: its middle node, or halfway between the two middle nodes
+export const getContigMidpoint = (node: LayoutNode): [number, number] | null => {
+  if (!isPlaced(node)) return null;
+  const { chain } = node;
+  const a = chain[Math.floor((chain.length - 1) / 2)];
+  const b = chain[Math.ceil((chain.length - 1) / 2)];
+  return [(a.x! + b.x!) / 2, (a.y! + b.y!) / 2];
+};
+
+// Moves a contig (all of its chain, and the pins if any) by a distance in graph coordinates
+export const moveContig = (node: LayoutNode, dx: number, dy: number) => {
+  node.chain.forEach(n => {
+    if (n.x != null) n.x += dx;
+    if (n.y != null) n.y += dy;
+    if (n.fx != null) n.fx += dx;
+    if (n.fy != null) n.fy += dy;
+  });
+};
+
+// Pins the whole chain where it is, so a drag carries the contig without bending it
+export const pinContig = (node: LayoutNode) => {
+  node.chain.forEach(n => {
+    n.fx = n.x;
+    n.fy = n.y;
+  });
+};
+
+export const isContigPinned = (node: LayoutNode) => node.chain.some(n => n.fx != null || n.fy != null);
+
+export const unpinContig = (node: LayoutNode) => {
+  node.chain.forEach(n => {
+    n.fx = null;
+    n.fy = null;
+  });
+};
+
+// Places the contigs not in `placed`, pass by pass, a short random hop from the ends of the placed contigs
+// they link to, so new contigs join the picture next to their neighbours; each one placed is added to
+// `placed`. Returns how many were left where they were, having no placed neighbour.
+export const placeBesideNeighbours = (
+  nodes: LayoutNode[],
+  edges: SimulationLink[],
+  placed: Set<LayoutNode>,
+  random: () => number
+): number => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // The far ends each contig is linked to, with the contig they belong to
+  const neighbours = new Map<LayoutNode, { node: LayoutNode; end: SimulationNode }[]>();
+  edges.forEach(edge => {
+    const s = edge.source as SimulationNode;
+    const t = edge.target as SimulationNode;
+    const a = byId.get(s.parentId);
+    const b = byId.get(t.parentId);
+    if (!a || !b || a === b) return;
+    if (!neighbours.has(a)) neighbours.set(a, []);
+    if (!neighbours.has(b)) neighbours.set(b, []);
+    neighbours.get(a)!.push({ node: b, end: t });
+    neighbours.get(b)!.push({ node: a, end: s });
+  });
+
+  let pending = nodes.filter(node => !placed.has(node));
+  let progress = true;
+  while (pending.length > 0 && progress) {
+    progress = false;
+    pending = pending.filter(node => {
+      const anchors = (neighbours.get(node) ?? []).filter(n => placed.has(n.node));
+      const mid = getContigMidpoint(node);
+      if (anchors.length === 0 || !mid) return true;
+      const cx = anchors.reduce((sum, a) => sum + (a.end.x ?? 0), 0) / anchors.length;
+      const cy = anchors.reduce((sum, a) => sum + (a.end.y ?? 0), 0) / anchors.length;
+      const angle = random() * Math.PI * 2;
+      const distance = 30 + random() * 30;
+      moveContig(node, cx + Math.cos(angle) * distance - mid[0], cy + Math.sin(angle) * distance - mid[1]);
+      unpinContig(node);
+      placed.add(node);
+      progress = true;
+      return false;
+    });
+  }
+  return pending.length;
+};
+
+// The plain assembly node, for handing a selection back without the simulation references
+export const toAssemblyNode = ({ start, end, chain, ...node }: LayoutNode): AssemblyNode => node;
+
+// Contigs with any chain node inside a screen-space rectangle, given the zoom transform { k, x, y }
+export const selectContigsInRect = (
+  nodes: LayoutNode[],
+  transform: { k: number; x: number; y: number },
+  [[x0, y0], [x1, y1]]: [[number, number], [number, number]]
+): LayoutNode[] => {
+  const inside = (n: SimulationNode) => {
+    if (n.x == null || n.y == null) return false;
+    const sx = n.x * transform.k + transform.x;
+    const sy = n.y * transform.k + transform.y;
+    return sx >= x0 && sx <= x1 && sy >= y0 && sy <= y1;
+  };
+  return nodes.filter(node => node.chain.some(inside));
+};
@@ -0,0 +1,356 @@
+import { LayoutAlgorithm, LayoutNode, SimulationLink, SimulationNode } from '../types';
+import { ContigEnd } from './orientation';
+import { COMPONENT_GAP, GraphComponent, packComponents } from './components';
+import { createPriorityQueue } from './priorityQueue';
+import { isContigPinned, moveContig } from './layout';
+
+// Layouts that place every contig directly instead of simulating forces. Each connected component is laid
+// out on its own and the components are then packed like the force layout packs them. Pinned contigs (from a
+// layout file or Freeze & Select) stay where they are; the rest are laid out around them.
+
+export type StaticLayoutAlgorithm = Exclude<LayoutAlgorithm, 'force'>;
+
+export interface StaticLayoutOptions {
+  gap: number; // Space left between joined contigs
+  contigWidth: number;
+  center: [number, number];
+  getVisualLength: (bp: number) => number;
+}
+
+type Point = [number, number];
+
+// One link as seen from one of its contigs: which end of this contig it touches, and where it goes
+interface Join {
+  node: LayoutNode;
+  own: ContigEnd;
+  other: ContigEnd;
+  outgoing: boolean; // This contig is the link's source
+}
+
+// A contig on a walk, and the end the walk leaves it from (leaving from 'start' means it is read backwards)
+interface Step {
+  node: LayoutNode;
+  exit: ContigEnd;
+}
+
+const otherEnd = (end: ContigEnd): ContigEnd => (end === 'start' ? 'end' : 'start');
+const stepKey = (step: Step) => `${step.node.id}|${step.exit}`;
+
+const buildJoins = (nodes: LayoutNode[], edges: SimulationLink[], lookup: Map<string, LayoutNode>) => {
+  const joins = new Map<LayoutNode, Join[]>(nodes.map(n => [n, []]));
+  edges.forEach(edge => {
+    const s = edge.source as SimulationNode;
+    const t = edge.target as SimulationNode;
+    const a = lookup.get(s.parentId);
+    const b = lookup.get(t.parentId);
+    if (!a || !b) return;
+    const sEnd = s.type as ContigEnd;
+    const tEnd = t.type as ContigEnd;
+    joins.get(a)?.push({ node: b, own: sEnd, other: tEnd, outgoing: true });
+    if (a !== b) joins.get(b)?.push({ node: a, own: tEnd, other: sEnd, outgoing: false });
+  });
+  return joins;
+};
+
+// Spreads a contig's chain along a curve from t = 0 to t = 1; a reversed contig runs from 1 back to 0.
+// Pinned contigs are left alone.
+const placeChain = (node: LayoutNode, at: (t: number) => Point, reversed: boolean) => {
+  if (isContigPinned(node)) return;
+  const last = node.chain.length - 1;
+  node.chain.forEach((n, i) => {
+    const [x, y] = at(reversed ? 1 - i / last : i / last);
+    n.x = x;
+    n.y = y;
+  });
+};
+
+const placeStraight = (node: LayoutNode, x: number, y: number, length: number, reversed: boolean) => {
+  placeChain(node, t => [x + t * length, y], reversed);
+};
+
+// Whether most of a contig's links read it backwards: arriving at its end or leaving from its start
+const prefersReversed = (joins: Join[]) => {
+  let score = 0;
+  joins.forEach(j => {
+    const forward = j.outgoing ? j.own === 'end' : j.own === 'start';
+    score += forward ? 1 : -1;
+  });
+  return score < 0;
+};
+
+// Strand-aware Dijkstra over drawn length: a walk enters each contig at one end and leaves from the other.
+// Returns the walk to the step farthest from `starts`.
+const farthestWalk = (starts: Step[], joins: Map<LayoutNode, Join[]>, lengthOf: (node: LayoutNode) => number): Step[] => {
+  const best = new Map<string, { step: Step; dist: number; prev: string | null }>();
+  const queue = createPriorityQueue<string>();
+  starts.forEach(step => {
+    const key = stepKey(step);
+    best.set(key, { step, dist: lengthOf(step.node), prev: null });
+    queue.push(key, lengthOf(step.node));
+  });
+
+  let farthest = stepKey(starts[0]);
+  while (queue.size() > 0) {
+    const { key: dist, value: key } = queue.pop()!;
+    const entry = best.get(key)!;
+    if (dist > entry.dist) continue;
+    if (entry.dist > best.get(farthest)!.dist) farthest = key;
+    (joins.get(entry.step.node) ?? []).forEach(j => {
+      if (j.own !== entry.step.exit) return;
+      const next: Step = { node: j.node, exit: otherEnd(j.other) };
+      const nextKey = stepKey(next);
+      const nextDist = entry.dist + lengthOf(j.node);
+      const current = best.get(nextKey);
+      if (!current || nextDist < current.dist) {
+        best.set(nextKey, { step: next, dist: nextDist, prev: key });
+        queue.push(nextKey, nextDist);
+      }
+    });
+  }
+
+  const walk: Step[] = [];
+  for (let key: string | null = farthest; key !== null; key = best.get(key)!.prev) {
+    walk.push(best.get(key)!.step);
+  }
+  return walk.reverse();
+};
+
+// The component's longest walk, approximated by two sweeps: from the longest contig to the farthest step,
+// then from there (turned around) to the farthest step from it
+const longestWalk = (nodes: LayoutNode[], joins: Map<LayoutNode, Join[]>, lengthOf: (node: LayoutNode) => number) => {
+  const seed = nodes.reduce((a, b) => (lengthOf(b) > lengthOf(a) ? b : a));
+  const first = farthestWalk([{ node: seed, exit: 'end' }, { node: seed, exit: 'start' }], joins, lengthOf);
+  const far = first[first.length - 1];
+  const back = farthestWalk([{ node: far.node, exit: otherEnd(far.exit) }], joins, lengthOf);
+  // Read the second sweep forwards again, so the walk runs the same way as the links along it
+  return back.reverse().map(step => ({ node: step.node, exit: otherEnd(step.exit) }));
+};
+
+// Longest walk along a line; every other contig in rows above and below, near the contig it hangs off
+const layoutLinear = (nodes: LayoutNode[], joins: Map<LayoutNode, Join[]>, options: StaticLayoutOptions) => {
+  const lengthOf = (node: LayoutNode) => options.getVisualLength(node.length);
+  const rowGap = options.contigWidth * 3 + 20;
+  const centers = new Map<LayoutNode, number>();
+  const rows = new Map<LayoutNode, number>();
+
+  let x = 0;
+  longestWalk(nodes, joins, lengthOf).forEach(step => {
+    if (centers.has(step.node)) return;
+    const length = lengthOf(step.node);
+    placeStraight(step.node, x, 0, length, step.exit === 'start');
+    centers.set(step.node, x + length / 2);
+    rows.set(step.node, 0);
+    x += length + options.gap;
+  });
+
+  // Branches, one breadth-first level at a time so each level can use its parents' final positions.
+  // First-level branches alternate above and below the line; deeper ones move further out on the same side.
+  let frontier = [...centers.keys()];
+  let side = -1;
+  while (frontier.length > 0) {
+    const wanted: { node: LayoutNode; row: number; x: number }[] = [];
+    const claimed = new Set<LayoutNode>();
+    frontier.forEach(parent => {
+      const parentRow = rows.get(parent)!;
+      (joins.get(parent) ?? []).forEach(j => {
+        if (centers.has(j.node) || claimed.has(j.node)) return;
+        claimed.add(j.node);
+        let row = parentRow + Math.sign(parentRow);
+        if (parentRow === 0) {
+          row = side;
+          side = -side;
+        }
+        wanted.push({ node: j.node, row, x: centers.get(parent)! });
+      });
+    });
+
+    const byRow = new Map<number, typeof wanted>();
+    wanted.forEach(w => {
+      if (!byRow.has(w.row)) byRow.set(w.row, []);
+      byRow.get(w.row)!.push(w);
+    });
+    byRow.forEach((items, row) => {
+      // Left to right by wanted position, pushed right where they would overlap
+      items.sort((a, b) => a.x - b.x);
+      let cursor = -Infinity;
+      items.forEach(({ node, x: wantedX }) => {
+        const length = lengthOf(node);
+        const left = Math.max(wantedX - length / 2, cursor);
+        placeStraight(node, left, row * rowGap, length, prefersReversed(joins.get(node) ?? []));
+        centers.set(node, left + length / 2);
+        rows.set(node, row);
+        cursor = left + length + options.gap;
+      });
+    });
+    frontier = wanted.map(w => w.node);
+  }
+
+  // Contigs with no joins at all (only possible for a single-contig component) sit on the line
+  nodes.forEach(node => {
+    if (centers.has(node)) return;
+    placeStraight(node, x, 0, lengthOf(node), false);
+    x += lengthOf(node) + options.gap;
+  });
+};
+
+// Layers from left to right following link direction (links closing a cycle are ignored), ordered within
+// each layer by the barycentre of their neighbours to cut down crossings
+const layoutLayered = (nodes: LayoutNode[], joins: Map<LayoutNode, Join[]>, options: StaticLayoutOptions) => {
+  const lengthOf = (node: LayoutNode) => options.getVisualLength(node.length);
+  const rowGap = options.contigWidth * 3 + 20;
+
+  // Depth-first search from contigs with no incoming links; edges back into the current path close a cycle
+  const hasIncoming = new Set<LayoutNode>();
+  joins.forEach(list => list.forEach(j => { if (!j.outgoing) hasIncoming.add(j.node); }));
+  const successors = new Map<LayoutNode, LayoutNode[]>(nodes.map(n => [n, []]));
+  const state = new Map<LayoutNode, 1 | 2>();
+  const roots = [...nodes.filter(n => !hasIncoming.has(n)), ...nodes];
+  roots.forEach(root => {
+    if (state.has(root)) return;
+    const stack: { node: LayoutNode; next: number }[] = [{ node: root, next: 0 }];
+    state.set(root, 1);
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const out = (joins.get(top.node) ?? []).filter(j => j.outgoing && j.node !== top.node);
+      if (top.next >= out.length) {
+        state.set(top.node, 2);
+        stack.pop();
+        continue;
+      }
+      const child = out[top.next++].node;
+      if (state.get(child) === 1) continue;
+      successors.get(top.node)!.push(child);
+      if (!state.has(child)) {
+        state.set(child, 1);
+        stack.push({ node: child, next: 0 });
+      }
+    }
+  });
+
+  // Longest-path layering over the acyclic links
+  const predecessors = new Map<LayoutNode, LayoutNode[]>(nodes.map(n => [n, []]));
+  successors.forEach((list, node) => list.forEach(child => predecessors.get(child)!.push(node)));
+  const layerOf = new Map<LayoutNode, number>();
+  const remaining = new Map(nodes.map(n => [n, predecessors.get(n)!.length]));
+  const queue = nodes.filter(n => remaining.get(n) === 0);
+  queue.forEach(n => layerOf.set(n, 0));
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    successors.get(node)!.forEach(child => {
+      layerOf.set(child, Math.max(layerOf.get(child) ?? 0, layerOf.get(node)! + 1));
+      remaining.set(child, remaining.get(child)! - 1);
+      if (remaining.get(child) === 0) queue.push(child);
+    });
+  }
+
+  const layers: LayoutNode[][] = [];
+  queue.forEach(node => {
+    const layer = layerOf.get(node)!;
+    (layers[layer] ??= []).push(node);
+  });
+
+  // A few down and up sweeps of barycentre ordering
+  const position = new Map<LayoutNode, number>();
+  const index = () => layers.forEach(layer => layer.forEach((n, i) => position.set(n, i)));
+  index();
+  const reorder = (layer: LayoutNode[], neighbours: Map<LayoutNode, LayoutNode[]>) => {
+    const key = new Map(layer.map(n => {
+      const list = neighbours.get(n)!;
+      return [n, list.length > 0 ? list.reduce((sum, m) => sum + position.get(m)!, 0) / list.length : position.get(n)!];
+    }));
+    layer.sort((a, b) => key.get(a)! - key.get(b)!);
+    layer.forEach((n, i) => position.set(n, i));
+  };
+  for (let sweep = 0; sweep < 4; sweep++) {
+    for (let l = 1; l < layers.length; l++) reorder(layers[l], predecessors);
+    for (let l = layers.length - 2; l >= 0; l--) reorder(layers[l], successors);
+  }
+
+  let x = 0;
+  layers.forEach(layer => {
+    const width = Math.max(...layer.map(lengthOf));
+    layer.forEach((node, i) => {
+      const length = lengthOf(node);
+      const y = (i - (layer.length - 1) / 2) * rowGap;
+      placeStraight(node, x + (width - length) / 2, y, length, prefersReversed(joins.get(node) ?? []));
+    });
+    x += width + Math.max(options.gap, 40);
+  });
+};
+
+// Contigs around a circle in walk order (depth-first along the links), each bent along its arc
+const layoutCircular = (nodes: LayoutNode[], joins: Map<LayoutNode, Join[]>, options: StaticLayoutOptions) => {
+  const lengthOf = (node: LayoutNode) => options.getVisualLength(node.length);
+  const order: Step[] = [];
+  const visited = new Set<LayoutNode>();
+  const walk = (start: Step) => {
+    const stack = [start];
+    while (stack.length > 0) {
+      const step = stack.pop()!;
+      if (visited.has(step.node)) continue;
+      visited.add(step.node);
+      order.push(step);
+      const next = (joins.get(step.node) ?? [])
+        .filter(j => j.own === step.exit && !visited.has(j.node))
+        .map(j => ({ node: j.node, exit: otherEnd(j.other) }));
+      // Pushed in reverse so the first link is followed first
+      stack.push(...next.reverse());
+    }
+  };
+  walk(longestWalk(nodes, joins, lengthOf)[0]);
+  nodes.forEach(node => {
+    if (!visited.has(node)) walk({ node, exit: prefersReversed(joins.get(node) ?? []) ? 'start' : 'end' });
+  });
+
+  const circumference = order.reduce((sum, step) => sum + lengthOf(step.node) + options.gap, 0);
+  const radius = Math.max(circumference / (Math.PI * 2), 20);
+  let angle = -Math.PI / 2;
+  order.forEach(({ node, exit }) => {
+    const length = lengthOf(node);
+    const from = angle;
+    const span = length / radius;
+    placeChain(node, t => [radius * Math.cos(from + t * span), radius * Math.sin(from + t * span)], exit === 'start');
+    angle += (length + options.gap) / radius;
+  });
+};
+
+const LAYOUTS: Record<StaticLayoutAlgorithm, typeof layoutLinear> = {
+  linear: layoutLinear,
+  layered: layoutLayered,
+  circular: layoutCircular
+};
+
+// Places every contig of the given components with `algorithm`, then packs the components around the centre
+export const applyStaticLayout = (
+  algorithm: StaticLayoutAlgorithm,
+  lookup: Map<string, LayoutNode>,
+  edges: SimulationLink[],
+  components: GraphComponent[],
+  options: StaticLayoutOptions
+) => {
+  const groups = components
+    .map(c => c.nodeIds.map(id => lookup.get(id)).filter((n): n is LayoutNode => !!n))
+    .filter(group => group.length > 0);
+  const joins = buildJoins(groups.flat(), edges, lookup);
+
+  // Only the contigs the layout placed are packed; pinned ones keep their absolute positions
+  const free = groups.map(group => group.filter(node => !isContigPinned(node)));
+  const bounds = groups.map((group, i) => {
+    LAYOUTS[algorithm](group, joins, options);
+    if (free[i].length === 0) return { x0: 0, y0: 0, width: 0, height: 0 };
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    free[i].forEach(node => node.chain.forEach(n => {
+      x0 = Math.min(x0, n.x!); x1 = Math.max(x1, n.x!);
+      y0 = Math.min(y0, n.y!); y1 = Math.max(y1, n.y!);
+    }));
+    const pad = options.contigWidth;
+    return { x0: x0 - pad, y0: y0 - pad, width: x1 - x0 + pad * 2, height: y1 - y0 + pad * 2 };
+  });
+
+  packComponents(bounds, COMPONENT_GAP, options.center).forEach(([cx, cy], i) => {
+    const b = bounds[i];
+    const dx = cx - (b.x0 + b.width / 2);
+    const dy = cy - (b.y0 + b.height / 2);
+    free[i].forEach(node => moveContig(node, dx, dy));
+  });
+};
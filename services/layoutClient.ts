@@ -0,0 +1,91 @@
+import { SimulationLink, SimulationNode } from '../types';
+import { LayoutForces, LayoutWorkerMessage, LayoutWorkerRequest } from './layoutTransfer';
+
+// The force layout as seen from the page: the physics run in a worker, and every frame the
+// worker's positions are copied into the page's own SimulationNode objects before onTick fires
+export interface LayoutSimulation {
+  onTick: (callback: (() => void) | null) => void;
+  setForces: (forces: LayoutForces) => void;
+  // Resumes ticking, optionally reheating to `alpha` first
+  restart: (alpha?: number) => void;
+  stop: () => void;
+  setAlphaTarget: (target: number) => void;
+  // Pushes page-side changes to x/y and pins (fx/fy) of these nodes to the worker
+  syncNodes: (nodes: SimulationNode[]) => void;
+  terminate: () => void;
+}
+
+export const createLayoutSimulation = (
+  simNodes: SimulationNode[],
+  simLinks: SimulationLink[],
+  forces: LayoutForces,
+  // `components` numbers each contig's connected component, largest first; null lays the graph out as one.
+  // `onError` hears of an exception in the worker, after which the layout no longer moves.
+  options: {
+    center: [number, number];
+    running: boolean;
+    components: Map<string, number> | null;
+    onError?: (message: string) => void;
+  }
+): LayoutSimulation => {
+  const worker = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' });
+  const send = (request: LayoutWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, { transfer });
+  const indexOf = new Map(simNodes.map((n, i) => [n, i]));
+  let tick: (() => void) | null = null;
+
+  worker.onmessage = (event: MessageEvent<LayoutWorkerMessage>) => {
+    const { positions } = event.data;
+    simNodes.forEach((n, i) => {
+      n.x = positions[i * 2];
+      n.y = positions[i * 2 + 1];
+    });
+    send({ type: 'frame-ack', buffer: positions }, [positions.buffer]);
+    tick?.();
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    console.error('Layout worker failed', event);
+    options.onError?.(event.message || 'The layout worker stopped unexpectedly');
+  };
+
+  const positions = new Float64Array(simNodes.length * 2);
+  simNodes.forEach((n, i) => {
+    positions[i * 2] = n.x ?? 0;
+    positions[i * 2 + 1] = n.y ?? 0;
+  });
+  const links = new Int32Array(simLinks.length * 2);
+  const backbone = new Uint8Array(simLinks.length);
+  simLinks.forEach((l, i) => {
+    links[i * 2] = indexOf.get(l.source as SimulationNode) ?? 0;
+    links[i * 2 + 1] = indexOf.get(l.target as SimulationNode) ?? 0;
+    backbone[i] = l.type === 'backbone' ? 1 : 0;
+  });
+  const components = options.components
+    ? Int32Array.from(simNodes, n => options.components!.get(n.parentId) ?? 0)
+    : null;
+  send(
+    { type: 'init', positions, links, backbone, forces, center: options.center, components, running: options.running },
+    [positions.buffer, links.buffer, backbone.buffer, forces.linkDistances.buffer, ...(components ? [components.buffer] : [])]
+  );
+
+  return {
+    onTick: callback => { tick = callback; },
+    setForces: next => send({ type: 'forces', forces: next }, [next.linkDistances.buffer]),
+    restart: alpha => send({ type: 'restart', alpha }),
+    stop: () => send({ type: 'stop' }),
+    setAlphaTarget: target => send({ type: 'alpha-target', target }),
+    syncNodes: nodes => {
+      const indices = new Int32Array(nodes.length);
+      const values = new Float64Array(nodes.length * 4);
+      nodes.forEach((n, i) => {
+        indices[i] = indexOf.get(n) ?? -1;
+        values.set([n.x ?? NaN, n.y ?? NaN, n.fx ?? NaN, n.fy ?? NaN], i * 4);
+      });
+      send({ type: 'nodes', indices, values }, [indices.buffer, values.buffer]);
+    },
+    terminate: () => {
+      tick = null;
+      worker.terminate();
+    }
+  };
+};
@@ -0,0 +1,139 @@
+import { LayoutNode, SimulationLink, SimulationNode } from '../types';
+import { isContigPinned, pinContig, placeBesideNeighbours, unpinContig } from './layout';
+
+type Point = [number, number];
+
+// One contig in a saved layout. Bend points are optional: a layout from a different Linear Scaling
+// (and so a different chain length) falls back to a straight line between the ends.
+export interface LayoutFileNode {
+  start: Point;
+  end: Point;
+  mid?: Point[];
+  pinned: boolean;
+}
+
+// Saved positions keyed by drawn node id: the segment id, or the strand id (`ctg_5+`) in double mode
+export interface LayoutFile {
+  format: 'webbandage-layout';
+  version: 1;
+  doubleMode: boolean;
+  nodes: Record<string, LayoutFileNode>;
+}
+
+export interface LayoutImportResult {
+  matched: number; // Contigs found in the file
+  placed: number; // Contigs missing from the file, placed next to their neighbours
+  unplaced: number; // Contigs missing from the file with no placed neighbour; left where they were
+  ignored: number; // File entries with no contig in the current graph
+}
+
+const toPoint = (n: SimulationNode): Point => [n.x ?? 0, n.y ?? 0];
+
+export const createLayoutFile = (nodes: LayoutNode[], doubleMode: boolean): LayoutFile => {
+  const entries: Record<string, LayoutFileNode> = {};
+  nodes.forEach(node => {
+    const { chain } = node;
+    entries[node.id] = {
+      start: toPoint(node.start),
+      end: toPoint(node.end),
+      ...(chain.length > 2 ? { mid: chain.slice(1, -1).map(toPoint) } : {}),
+      pinned: isContigPinned(node)
+    };
+  });
+  return { format: 'webbandage-layout', version: 1, doubleMode, nodes: entries };
+};
+
+const isPoint = (value: unknown): value is Point =>
+  Array.isArray(value) && value.length === 2 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// One entry of an untrusted file, checked field by field; throws naming the entry if it is malformed
+const parseLayoutFileNode = (id: string, entry: unknown): LayoutFileNode => {
+  if (!isRecord(entry) || !isPoint(entry.start) || !isPoint(entry.end)) {
+    throw new Error(`Layout entry "${id}" has no valid start/end coordinates`);
+  }
+  const { start, end, mid, pinned } = entry;
+  let bends: Point[] | undefined;
+  if (mid !== undefined) {
+    if (!Array.isArray(mid) || !mid.every(isPoint)) {
+      throw new Error(`Layout entry "${id}" has invalid bend points`);
+    }
+    bends = mid;
+  }
+  if (pinned !== undefined && typeof pinned !== 'boolean') {
+    throw new Error(`Layout entry "${id}" has an invalid pinned flag`);
+  }
+  return {
+    start,
+    end,
+    ...(bends !== undefined ? { mid: bends } : {}),
+    pinned: pinned === true
+  };
+};
+
+// Checks the shape of a saved layout; throws with a readable message if it isn't one
+export const parseLayoutFile = (text: string): LayoutFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== 'webbandage-layout' || !isRecord(raw.nodes)) {
+    throw new Error('The file is not a WebBandage layout');
+  }
+  if (raw.version !== 1) {
+    throw new Error(`Unsupported layout version ${String(raw.version)}`);
+  }
+  const nodes: Record<string, LayoutFileNode> = {};
+  Object.entries(raw.nodes).forEach(([id, entry]) => {
+    nodes[id] = parseLayoutFileNode(id, entry);
+  });
+  return {
+    format: 'webbandage-layout',
+    version: 1,
+    doubleMode: raw.doubleMode === true,
+    nodes
+  };
+};
+
+const setChain = (node: LayoutNode, entry: LayoutFileNode) => {
+  const { chain } = node;
+  const last = chain.length - 1;
+  const mid = entry.mid?.length === last - 1 ? entry.mid : null;
+  chain.forEach((n, i) => {
+    const t = i / last;
+    const [x, y] = i === 0 ? entry.start : i === last ? entry.end : mid
+      ? mid[i - 1]
+      : [entry.start[0] + (entry.end[0] - entry.start[0]) * t, entry.start[1] + (entry.end[1] - entry.start[1]) * t];
+    n.x = x;
+    n.y = y;
+  });
+  if (entry.pinned) pinContig(node);
+  else unpinContig(node);
+};
+
+// Moves contigs to their saved positions. Contigs the file doesn't know are then placed next to the saved
+// contigs they link to (see placeBesideNeighbours); `random` keeps that placement reproducible.
+export const applyLayoutFile = (
+  nodes: LayoutNode[],
+  edges: SimulationLink[],
+  file: LayoutFile,
+  random: () => number
+): LayoutImportResult => {
+  const ids = new Set(nodes.map(n => n.id));
+  const placed = new Set<LayoutNode>();
+  nodes.forEach(node => {
+    const entry = file.nodes[node.id];
+    if (!entry) return;
+    setChain(node, entry);
+    placed.add(node);
+  });
+  const matched = placed.size;
+  const ignored = Object.keys(file.nodes).filter(id => !ids.has(id)).length;
+
+  const unplaced = placeBesideNeighbours(nodes, edges, placed, random);
+  return { matched, placed: placed.size - matched, unplaced, ignored };
+};
@@ -0,0 +1,32 @@
+// Messages between the graph view and the layout worker. Positions travel as one Float64Array of
+// x,y pairs (in simulation node order) that is transferred to the page and handed back with the ack,
+// so the same two buffers shuttle back and forth instead of a new one being cloned every frame.
+
+export interface LayoutForces {
+  chargeStrength: number;
+  collideRadius: number;
+  linkDistances: Float64Array; // One per simulation link
+}
+
+export type LayoutWorkerRequest =
+  | {
+      type: 'init';
+      positions: Float64Array; // x,y per node
+      links: Int32Array; // source,target node indices per link
+      backbone: Uint8Array; // 1 where the link is a contig backbone rather than an edge
+      forces: LayoutForces;
+      center: [number, number];
+      // Connected component of each node, numbered largest first; when given, each component is laid out
+      // on its own and the components are packed in a grid around `center`
+      components: Int32Array | null;
+      running: boolean;
+    }
+  | { type: 'forces'; forces: LayoutForces }
+  | { type: 'restart'; alpha?: number }
+  | { type: 'stop' }
+  | { type: 'alpha-target'; target: number }
+  // x, y, fx, fy per listed node; NaN leaves x/y unchanged and clears fx/fy
+  | { type: 'nodes'; indices: Int32Array; values: Float64Array }
+  | { type: 'frame-ack'; buffer: Float64Array };
+
+export type LayoutWorkerMessage = { type: 'positions'; positions: Float64Array };
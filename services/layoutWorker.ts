@@ -0,0 +1,188 @@
+import * as d3 from 'd3';
+import { LayoutForces, LayoutWorkerMessage, LayoutWorkerRequest } from './layoutTransfer';
+import { COMPONENT_GAP, packComponents } from './components';
+
+interface WorkerNode extends d3.SimulationNodeDatum {
+  index: number;
+  x?: number;
+  y?: number;
+  fx?: number | null;
+  fy?: number | null;
+}
+
+interface WorkerLink extends d3.SimulationLinkDatum<WorkerNode> {
+  index: number;
+  backbone: boolean;
+}
+
+// Tick pacing; the page also only gets a new frame once it has handed the previous buffer back
+const FRAME_MS = 16;
+// Components are re-packed this often, as their layouts grow or settle
+const REPACK_TICKS = 20;
+
+let simulation: d3.Simulation<WorkerNode, WorkerLink> | null = null;
+let nodes: WorkerNode[] = [];
+let running = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+// Buffers owned by the worker right now (the other one is with the page until it is acked)
+let spare: Float64Array[] = [];
+let dirty = false;
+// Nodes of each connected component when components are laid out separately, and their centering forces
+let groups: WorkerNode[][] | null = null;
+let centers: d3.ForceCenter<WorkerNode>[] = [];
+let collidePadding = 0;
+let center: [number, number] = [0, 0];
+let ticks = 0;
+
+const post = (message: LayoutWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Sends the latest positions if a buffer is free; otherwise the next ack will
+const flush = () => {
+  if (!dirty || spare.length === 0) return;
+  const positions = spare.pop()!;
+  nodes.forEach((n, i) => {
+    positions[i * 2] = n.x ?? 0;
+    positions[i * 2 + 1] = n.y ?? 0;
+  });
+  dirty = false;
+  post({ type: 'positions', positions }, [positions.buffer]);
+};
+
+// A force per component, each initialized with only that component's nodes, so components neither
+// repel nor collide with each other
+const perComponent = (make: (component: number) => d3.Force<WorkerNode, undefined>): d3.Force<WorkerNode, undefined> => {
+  const parts = (groups ?? []).map((members, i) => ({ members, force: make(i) }));
+  const force = (alpha: number) => parts.forEach(p => p.force(alpha));
+  force.initialize = (_nodes: WorkerNode[], random: () => number) => {
+    parts.forEach(p => p.force.initialize?.(p.members, random));
+  };
+  return force;
+};
+
+// Moves each component's centre target to its cell in a size-ordered grid, from current bounding boxes
+const repack = () => {
+  if (!groups) return;
+  const boxes = groups.map(members => {
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    members.forEach(n => {
+      x0 = Math.min(x0, n.x ?? 0); x1 = Math.max(x1, n.x ?? 0);
+      y0 = Math.min(y0, n.y ?? 0); y1 = Math.max(y1, n.y ?? 0);
+    });
+    return { width: x1 - x0 + collidePadding * 2, height: y1 - y0 + collidePadding * 2 };
+  });
+  packComponents(boxes, COMPONENT_GAP, center).forEach(([x, y], i) => centers[i]?.x(x).y(y));
+};
+
+const step = () => {
+  timer = null;
+  if (!simulation || !running) return;
+  if (ticks++ % REPACK_TICKS === 0) repack();
+  simulation.tick();
+  dirty = true;
+  flush();
+  if (simulation.alpha() < simulation.alphaMin()) {
+    running = false;
+    return;
+  }
+  timer = setTimeout(step, FRAME_MS);
+};
+
+const start = () => {
+  running = true;
+  if (timer === null) timer = setTimeout(step, 0);
+};
+
+const stop = () => {
+  running = false;
+  if (timer !== null) clearTimeout(timer);
+  timer = null;
+};
+
+const applyForces = (forces: LayoutForces) => {
+  if (!simulation) return;
+  collidePadding = forces.collideRadius;
+  if (groups) {
+    simulation.force('charge', perComponent(() => d3.forceManyBody<WorkerNode>().strength(forces.chargeStrength)));
+    simulation.force('collide', perComponent(() => d3.forceCollide<WorkerNode>().radius(forces.collideRadius).iterations(2)));
+  } else {
+    simulation.force('charge', d3.forceManyBody<WorkerNode>().strength(forces.chargeStrength));
+    simulation.force('collide', d3.forceCollide<WorkerNode>().radius(forces.collideRadius).iterations(2));
+  }
+  const linkForce = simulation.force('link') as d3.ForceLink<WorkerNode, WorkerLink> | undefined;
+  linkForce?.distance(l => forces.linkDistances[l.index]);
+};
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init': {
+      stop();
+      const { positions, links, backbone, components } = request;
+      nodes = Array.from({ length: positions.length / 2 }, (_, i) => ({ index: i, x: positions[i * 2], y: positions[i * 2 + 1] }));
+      center = request.center;
+      ticks = 0;
+      groups = null;
+      if (components) {
+        groups = [];
+        components.forEach((c, i) => (groups![c] ??= []).push(nodes[i]));
+        groups = groups.filter(Boolean);
+      }
+      const simLinks: WorkerLink[] = Array.from({ length: backbone.length }, (_, i) => ({
+        index: i,
+        source: links[i * 2],
+        target: links[i * 2 + 1],
+        backbone: backbone[i] === 1
+      }));
+      simulation = d3.forceSimulation<WorkerNode, WorkerLink>(nodes)
+        .stop()
+        .force('link', d3.forceLink<WorkerNode, WorkerLink>(simLinks).strength(l => l.backbone ? 1 : 0.5));
+      if (groups) {
+        centers = groups.map(() => d3.forceCenter<WorkerNode>(center[0], center[1]));
+        simulation.force('center', perComponent(i => centers[i]));
+      } else {
+        centers = [];
+        simulation.force('center', d3.forceCenter(center[0], center[1]));
+      }
+      applyForces(request.forces);
+      // The init buffer comes back as one of the two frame buffers
+      spare = [positions, new Float64Array(positions.length)];
+      if (request.running) start();
+      break;
+    }
+    case 'forces':
+      applyForces(request.forces);
+      break;
+    case 'restart':
+      if (!simulation) break;
+      if (request.alpha !== undefined) simulation.alpha(request.alpha);
+      start();
+      break;
+    case 'stop':
+      stop();
+      break;
+    case 'alpha-target':
+      simulation?.alphaTarget(request.target);
+      break;
+    case 'nodes':
+      request.indices.forEach((index, i) => {
+        const node = nodes[index];
+        if (!node) return;
+        const [x, y, fx, fy] = request.values.subarray(i * 4, i * 4 + 4);
+        if (!Number.isNaN(x)) node.x = x;
+        if (!Number.isNaN(y)) node.y = y;
+        node.fx = Number.isNaN(fx) ? null : fx;
+        node.fy = Number.isNaN(fy) ? null : fy;
+      });
+      // Echo the change back even when stopped, so a frame already on its way can't leave stale positions
+      dirty = true;
+      flush();
+      break;
+    case 'frame-ack':
+      // A stale buffer from before a re-init has the wrong size and is dropped
+      if (request.buffer.length === nodes.length * 2) spare.push(request.buffer);
+      flush();
+      break;
+  }
+};
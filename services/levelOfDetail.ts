@@ -0,0 +1,82 @@
+import { LayoutNode, SimulationNode } from '../types';
+import { getContigMidpoint } from './layout';
+
+// How much of each contig to draw at the current zoom: nothing when it is off screen, a dot when it is
+// only a few pixels long, and its label only once it is long enough on screen to carry one
+
+export interface DetailThresholds {
+  labelMinPx: number; // Labels hidden on contigs shorter than this on screen (0 = always shown)
+  dotMaxPx: number; // Contigs shorter than this on screen drawn as dots (0 = never)
+}
+
+export interface ContigDetail {
+  visible: boolean;
+  dot: boolean;
+  label: boolean;
+}
+
+// Visible part of the graph in graph coordinates, grown by `margin` screen pixels on every side
+export interface Viewport {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export const getViewport = (
+  transform: { k: number; x: number; y: number },
+  width: number,
+  height: number,
+  margin: number
+): Viewport => ({
+  x0: (-margin - transform.x) / transform.k,
+  y0: (-margin - transform.y) / transform.k,
+  x1: (width + margin - transform.x) / transform.k,
+  y1: (height + margin - transform.y) / transform.k
+});
+
+// Drawn length of a contig along its chain, in graph coordinates
+export const getContigLength = (node: LayoutNode) => {
+  let length = 0;
+  for (let i = 1; i < node.chain.length; i++) {
+    const a = node.chain[i - 1];
+    const b = node.chain[i];
+    length += Math.hypot((b.x ?? 0) - (a.x ?? 0), (b.y ?? 0) - (a.y ?? 0));
+  }
+  return length;
+};
+
+const overlaps = (points: SimulationNode[], viewport: Viewport) => {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  points.forEach(n => {
+    x0 = Math.min(x0, n.x ?? 0); x1 = Math.max(x1, n.x ?? 0);
+    y0 = Math.min(y0, n.y ?? 0); y1 = Math.max(y1, n.y ?? 0);
+  });
+  return x1 >= viewport.x0 && x0 <= viewport.x1 && y1 >= viewport.y0 && y0 <= viewport.y1;
+};
+
+// `viewport` is null when culling is off
+export const getContigDetail = (
+  node: LayoutNode,
+  scale: number,
+  viewport: Viewport | null,
+  thresholds: DetailThresholds
+): ContigDetail => {
+  if (viewport && !overlaps(node.chain, viewport)) return { visible: false, dot: false, label: false };
+  const screenLength = getContigLength(node) * scale;
+  return {
+    visible: true,
+    dot: screenLength < thresholds.dotMaxPx,
+    label: screenLength >= thresholds.labelMinPx
+  };
+};
+
+export const isEdgeVisible = (s: SimulationNode, t: SimulationNode, viewport: Viewport | null) => {
+  return !viewport || overlaps([s, t], viewport);
+};
+
+// A zero-length round-capped stroke at the contig's middle, which SVG draws as a dot of the stroke width
+export const getContigDotPath = (node: LayoutNode) => {
+  const mid = getContigMidpoint(node);
+  return mid ? `M${mid[0]},${mid[1]} L${mid[0]},${mid[1]}` : "";
+};
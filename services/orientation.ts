@@ -0,0 +1,90 @@
+import { AssemblyLink, AssemblyNode, GraphData, Orientation } from '../types';
+import { getReverseOverlap } from './cigar';
+
+export type ContigEnd = 'start' | 'end';
+
+export const flipOrientation = (orientation: Orientation): Orientation => {
+  return orientation === '+' ? '-' : '+';
+};
+
+// A segment read as '+' is entered at its start and left from its end; read as '-' it is the other way round
+export const getEntryEnd = (orientation: Orientation): ContigEnd => (orientation === '+' ? 'start' : 'end');
+export const getExitEnd = (orientation: Orientation): ContigEnd => (orientation === '+' ? 'end' : 'start');
+
+export const getLinkEnds = (link: AssemblyLink): { source: ContigEnd; target: ContigEnd } => ({
+  source: getExitEnd(link.sourceOrientation),
+  target: getEntryEnd(link.targetOrientation)
+});
+
+const COMPLEMENT: Record<string, string> = {
+  A: 'T', C: 'G', G: 'C', T: 'A', U: 'A', N: 'N',
+  a: 't', c: 'g', g: 'c', t: 'a', u: 'a', n: 'n'
+};
+
+export const reverseComplement = (sequence: string): string => {
+  let out = '';
+  for (let i = sequence.length - 1; i >= 0; i--) {
+    out += COMPLEMENT[sequence[i]] ?? 'N';
+  }
+  return out;
+};
+
+export const getStrandNodeId = (segmentId: string, orientation: Orientation) => `${segmentId}${orientation}`;
+
+// Splits "ctg_5-" into its segment id and strand; ids without a trailing strand sign return no orientation
+export const parseStrandNodeId = (id: string): { segmentId: string; orientation?: Orientation } => {
+  const last = id[id.length - 1];
+  if (id.length > 1 && (last === '+' || last === '-')) {
+    return { segmentId: id.slice(0, -1), orientation: last };
+  }
+  return { segmentId: id };
+};
+
+export const toStrandNode = (node: AssemblyNode, orientation: Orientation): AssemblyNode => ({
+  ...node,
+  id: getStrandNodeId(node.id, orientation),
+  sequence: orientation === '-' && node.sequence ? reverseComplement(node.sequence) : node.sequence,
+  segmentId: node.id,
+  strand: orientation
+});
+
+// The drawn nodes of some segments, in graph order: the segments themselves, or both strands of each in double mode
+export const getSegmentDisplayNodes = (data: GraphData, segmentIds: Iterable<string>, doubleMode: boolean): AssemblyNode[] => {
+  const members = new Set(segmentIds);
+  const nodes = data.nodes.filter(n => members.has(n.id));
+  return doubleMode ? nodes.flatMap(n => [toStrandNode(n, '+'), toStrandNode(n, '-')]) : nodes;
+};
+
+// Bandage's double mode: every segment becomes two nodes, N+ and its reverse complement N-.
+// Each link A(o1) -> B(o2) is drawn on both strands, as A{o1} -> B{o2} and B{~o2} -> A{~o1}.
+export const toDoubleStrandGraph = (data: GraphData): GraphData => {
+  const nodes: AssemblyNode[] = [];
+  data.nodes.forEach(node => {
+    nodes.push(toStrandNode(node, '+'), toStrandNode(node, '-'));
+  });
+
+  const links: AssemblyLink[] = [];
+  data.links.forEach(link => {
+    const source = getStrandNodeId(link.source, link.sourceOrientation);
+    const target = getStrandNodeId(link.target, link.targetOrientation);
+    links.push({ ...link, id: `${link.id}_fwd`, source, target, sourceOrientation: '+', targetOrientation: '+' });
+
+    // Self-complementary links (e.g. A+ -> A-) are their own mirror, so only the forward copy is kept.
+    // Parallel links between the same strands (different overlaps or CIGARs) each keep both copies.
+    const rcSource = getStrandNodeId(link.target, flipOrientation(link.targetOrientation));
+    const rcTarget = getStrandNodeId(link.source, flipOrientation(link.sourceOrientation));
+    if (rcSource === source && rcTarget === target) return;
+    // Read from the other strand, the overlap's reference and query sides swap
+    links.push({
+      ...link,
+      ...getReverseOverlap(link),
+      id: `${link.id}_rc`,
+      source: rcSource,
+      target: rcTarget,
+      sourceOrientation: '+',
+      targetOrientation: '+'
+    });
+  });
+
+  return { ...data, nodes, links };
+};
@@ -0,0 +1,159 @@
+import { AssemblyNode, GraphData, Orientation, PathStep } from '../types';
+import { flipOrientation } from './orientation';
+import { buildLinkIndex, getStepOverlap } from './pathUtils';
+import { createPriorityQueue } from './priorityQueue';
+
+// 'length' finds the path through the fewest bases, 'hops' the one through the fewest segments
+export type PathWeight = 'length' | 'hops';
+
+export interface FoundPath {
+  steps: PathStep[];
+  cost: number; // Bases of every segment on the path, or segments on it, depending on the weight
+  cumulativeLength: number[]; // Spelled length up to and including each step, overlaps trimmed
+}
+
+// A path end given by segment id, optionally held to one strand (`ctg_5+`)
+export interface PathEndpoint {
+  segmentId: string;
+  orientation?: Orientation;
+}
+
+export const stepKey = (step: PathStep) => `${step.segmentId}${step.orientation}`;
+
+// Steps reachable from each oriented segment, keyed by `stepKey`. A link A(o1) -> B(o2) can also be walked
+// on the other strand, as B(~o2) -> A(~o1).
+export const buildStepGraph = (data: GraphData) => {
+  const next = new Map<string, PathStep[]>();
+  const add = (from: PathStep, to: PathStep) => {
+    const key = stepKey(from);
+    if (!next.has(key)) next.set(key, []);
+    next.get(key)!.push(to);
+  };
+  data.links.forEach(link => {
+    add({ segmentId: link.source, orientation: link.sourceOrientation }, { segmentId: link.target, orientation: link.targetOrientation });
+    add(
+      { segmentId: link.target, orientation: flipOrientation(link.targetOrientation) },
+      { segmentId: link.source, orientation: flipOrientation(link.sourceOrientation) }
+    );
+  });
+  return next;
+};
+
+interface SearchOptions {
+  next: Map<string, PathStep[]>;
+  stepCost: (step: PathStep) => number;
+  isTarget: (step: PathStep) => boolean;
+  blockedSegments: Set<string>; // Never entered
+  blockedMoves: Set<string>; // "from>to" step keys never taken; from is '' for the choice of first step
+}
+
+// Dijkstra over oriented segments from `starts` (each with the cost already paid to reach it)
+const search = (starts: { step: PathStep; cost: number; from: string }[], options: SearchOptions): { steps: PathStep[]; cost: number } | null => {
+  const best = new Map<string, { step: PathStep; cost: number; prev: string | null }>();
+  const queue = createPriorityQueue<string>();
+  starts.forEach(({ step, cost, from }) => {
+    const key = stepKey(step);
+    if (options.blockedMoves.has(`${from}>${key}`)) return;
+    if ((best.get(key)?.cost ?? Infinity) <= cost) return;
+    best.set(key, { step, cost, prev: null });
+    queue.push(key, cost);
+  });
+
+  while (queue.size() > 0) {
+    const { key: cost, value: key } = queue.pop()!;
+    const entry = best.get(key)!;
+    if (cost > entry.cost) continue;
+    if (options.isTarget(entry.step)) {
+      const steps: PathStep[] = [];
+      for (let k: string | null = key; k !== null; k = best.get(k)!.prev) steps.push(best.get(k)!.step);
+      return { steps: steps.reverse(), cost };
+    }
+    (options.next.get(key) ?? []).forEach(step => {
+      const nextKey = stepKey(step);
+      if (options.blockedSegments.has(step.segmentId) || options.blockedMoves.has(`${key}>${nextKey}`)) return;
+      const nextCost = cost + options.stepCost(step);
+      if (nextCost < (best.get(nextKey)?.cost ?? Infinity)) {
+        best.set(nextKey, { step, cost: nextCost, prev: key });
+        queue.push(nextKey, nextCost);
+      }
+    });
+  }
+  return null;
+};
+
+const getCumulativeLengths = (steps: PathStep[], nodeMap: Map<string, AssemblyNode>, linkIndex: ReturnType<typeof buildLinkIndex>) => {
+  let length = 0;
+  return steps.map((step, i) => {
+    length += nodeMap.get(step.segmentId)?.length ?? 0;
+    if (i > 0) length -= getStepOverlap(linkIndex, steps[i - 1], step) ?? 0;
+    return Math.max(0, length);
+  });
+};
+
+// Shortest strand-aware paths from one segment to another: a path leaves each segment from the end its
+// strand exits at, so it only follows links a read could. Up to `count` paths are returned, best first;
+// the ones after the first are the next best loopless alternatives (Yen's algorithm).
+export const findShortestPaths = (
+  data: GraphData,
+  from: PathEndpoint,
+  to: PathEndpoint,
+  weight: PathWeight,
+  count = 1
+): FoundPath[] => {
+  const nodeMap = new Map(data.nodes.map(n => [n.id, n]));
+  if (!nodeMap.has(from.segmentId) || !nodeMap.has(to.segmentId)) return [];
+  const next = buildStepGraph(data);
+  const stepCost = (step: PathStep) => (weight === 'hops' ? 1 : nodeMap.get(step.segmentId)?.length ?? 0);
+  const isTarget = (step: PathStep) => step.segmentId === to.segmentId && (!to.orientation || step.orientation === to.orientation);
+  const firstSteps: PathStep[] = (from.orientation ? [from.orientation] : ['+', '-'] as Orientation[])
+    .map(orientation => ({ segmentId: from.segmentId, orientation }));
+  const pathKey = (steps: PathStep[]) => steps.map(stepKey).join(',');
+
+  const first = search(
+    firstSteps.map(step => ({ step, cost: stepCost(step), from: '' })),
+    { next, stepCost, isTarget, blockedSegments: new Set(), blockedMoves: new Set() }
+  );
+  if (!first) return [];
+
+  const found = [first];
+  const seen = new Set([pathKey(first.steps)]);
+  const candidates: { steps: PathStep[]; cost: number }[] = [];
+  while (found.length < count) {
+    const last = found[found.length - 1];
+    // Branch off the last path at every step (-1: at the choice of first step), keeping the part before it
+    for (let i = -1; i < last.steps.length - 1; i++) {
+      const root = last.steps.slice(0, i + 1);
+      const spurKey = i < 0 ? '' : stepKey(root[i]);
+      const blockedMoves = new Set<string>();
+      found.forEach(path => {
+        if (path.steps.length > i + 1 && pathKey(path.steps.slice(0, i + 1)) === pathKey(root)) {
+          blockedMoves.add(`${spurKey}>${stepKey(path.steps[i + 1])}`);
+        }
+      });
+      const rootCost = root.reduce((sum, step) => sum + stepCost(step), 0);
+      const starts = i < 0
+        ? firstSteps.map(step => ({ step, cost: stepCost(step), from: '' }))
+        : [{ step: root[i], cost: rootCost, from: '' }];
+      const spur = search(starts, {
+        next,
+        stepCost,
+        isTarget,
+        // The spur may not come back through the root
+        blockedSegments: new Set(root.map(step => step.segmentId)),
+        blockedMoves
+      });
+      if (!spur) continue;
+      const steps = i < 0 ? spur.steps : [...root.slice(0, -1), ...spur.steps];
+      const key = pathKey(steps);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ steps, cost: spur.cost });
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost);
+    found.push(candidates.shift()!);
+  }
+
+  const linkIndex = buildLinkIndex(data.links);
+  return found.map(path => ({ ...path, cumulativeLength: getCumulativeLengths(path.steps, nodeMap, linkIndex) }));
+};
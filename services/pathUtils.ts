@@ -0,0 +1,86 @@
+import { AssemblyLink, AssemblyNode, AssemblyPath, PathStep, Orientation } from '../types';
+import { flipOrientation, reverseComplement } from './orientation';
+import { getQueryOverlap } from './cigar';
+
+const stepKey = (segmentId: string, orientation: Orientation) => `${segmentId}${orientation}`;
+
+// Index links by "A+>B-" so a pair of consecutive path steps can be looked up directly.
+// A link A(o1) -> B(o2) is the same join as B(~o2) -> A(~o1), so both keys point at it.
+export const buildLinkIndex = (links: AssemblyLink[]): Map<string, AssemblyLink> => {
+  const index = new Map<string, AssemblyLink>();
+  links.forEach(link => {
+    index.set(`${stepKey(link.source, link.sourceOrientation)}>${stepKey(link.target, link.targetOrientation)}`, link);
+    const rcKey = `${stepKey(link.target, flipOrientation(link.targetOrientation))}>${stepKey(link.source, flipOrientation(link.sourceOrientation))}`;
+    if (!index.has(rcKey)) index.set(rcKey, link);
+  });
+  return index;
+};
+
+export const findStepLink = (index: Map<string, AssemblyLink>, from: PathStep, to: PathStep) => {
+  return index.get(`${stepKey(from.segmentId, from.orientation)}>${stepKey(to.segmentId, to.orientation)}`);
+};
+
+// Bases at the start of `to` already spelled by `from`, or undefined when no link joins the two steps.
+// Walked as written the link's target is trimmed by its query side; walked on the other strand its
+// source comes second, so the reference side is trimmed instead.
+export const getStepOverlap = (index: Map<string, AssemblyLink>, from: PathStep, to: PathStep) => {
+  const link = findStepLink(index, from, to);
+  if (!link) return undefined;
+  const forward = link.source === from.segmentId && link.sourceOrientation === from.orientation
+    && link.target === to.segmentId && link.targetOrientation === to.orientation;
+  return forward ? getQueryOverlap(link) : link.overlap;
+};
+
+export interface PathStats {
+  length: number; // Spelled sequence length, with link overlaps removed
+  stepCount: number;
+  segmentCount: number; // Distinct segments used
+  missingLinks: number; // Consecutive steps with no link in the graph
+  hasSequence: boolean; // Every step's segment has a sequence, so the path can be spelled
+}
+
+export const getPathStats = (
+  path: AssemblyPath,
+  nodeMap: Map<string, AssemblyNode>,
+  linkIndex: Map<string, AssemblyLink>
+): PathStats => {
+  let length = 0;
+  let missingLinks = 0;
+  path.steps.forEach((step, i) => {
+    length += nodeMap.get(step.segmentId)?.length ?? 0;
+    if (i === 0) return;
+    const overlap = getStepOverlap(linkIndex, path.steps[i - 1], step);
+    if (overlap !== undefined) {
+      length -= overlap;
+    } else {
+      missingLinks++;
+    }
+  });
+
+  return {
+    length: Math.max(0, length),
+    stepCount: path.steps.length,
+    segmentCount: new Set(path.steps.map(s => s.segmentId)).size,
+    missingLinks,
+    hasSequence: path.steps.every(step => !!nodeMap.get(step.segmentId)?.sequence)
+  };
+};
+
+// Spells the path: each step's sequence (reverse-complemented on '-') minus the overlap with the step
+// before it. Steps with no joining link are concatenated as they are. Null if any segment lacks a sequence.
+export const getPathSequence = (
+  path: AssemblyPath,
+  nodeMap: Map<string, AssemblyNode>,
+  linkIndex: Map<string, AssemblyLink>
+): string | null => {
+  const pieces: string[] = [];
+  for (let i = 0; i < path.steps.length; i++) {
+    const step = path.steps[i];
+    const sequence = nodeMap.get(step.segmentId)?.sequence;
+    if (!sequence) return null;
+    const oriented = step.orientation === '-' ? reverseComplement(sequence) : sequence;
+    const overlap = i > 0 ? getStepOverlap(linkIndex, path.steps[i - 1], step) ?? 0 : 0;
+    pieces.push(oriented.slice(Math.min(overlap, oriented.length)));
+  }
+  return pieces.join('');
+};
@@ -0,0 +1,51 @@
+// Binary min-heap keyed by a number, for Dijkstra-style searches over the graph
+export interface PriorityQueue<T> {
+  size: () => number;
+  push: (value: T, key: number) => void;
+  // Smallest key first; undefined when empty
+  pop: () => { key: number; value: T } | undefined;
+}
+
+export const createPriorityQueue = <T>(): PriorityQueue<T> => {
+  const items: { key: number; value: T }[] = [];
+
+  const swap = (i: number, j: number) => {
+    const t = items[i];
+    items[i] = items[j];
+    items[j] = t;
+  };
+
+  return {
+    size: () => items.length,
+    push: (value, key) => {
+      items.push({ key, value });
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (items[parent].key <= items[i].key) break;
+        swap(parent, i);
+        i = parent;
+      }
+    },
+    pop: () => {
+      if (items.length === 0) return undefined;
+      const top = items[0];
+      const last = items.pop()!;
+      if (items.length > 0) {
+        items[0] = last;
+        let i = 0;
+        for (;;) {
+          const left = i * 2 + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < items.length && items[left].key < items[smallest].key) smallest = left;
+          if (right < items.length && items[right].key < items[smallest].key) smallest = right;
+          if (smallest === i) break;
+          swap(smallest, i);
+          i = smallest;
+        }
+      }
+      return top;
+    }
+  };
+};
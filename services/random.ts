@@ -0,0 +1,15 @@
+// Small seeded PRNG (mulberry32) for anything that has to come out the same from the same seed:
+// initial layout positions and the mock graph. Returns floats in [0, 1) like Math.random.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed for the "new layout" button; the seed itself is what gets stored and shown
+export const randomSeed = () => Math.floor(Math.random() * 1000000);
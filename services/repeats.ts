@@ -0,0 +1,88 @@
+import { GraphData } from '../types';
+import { getLinkEnds } from './orientation';
+
+// Collapsed repeats: an assembler merges every copy of a repeat into one segment, which then carries the
+// reads of all copies (coverage a multiple of the single-copy level) and joins every place a copy sits
+// (several links at its ends)
+
+export interface SegmentCopyNumber {
+  copyNumber: number; // Coverage over the single-copy level, rounded; at least 1
+  ratio: number; // The unrounded coverage ratio
+  startLinks: number; // Links at its start
+  endLinks: number; // Links at its end
+  branching: boolean; // More than one link at one of its ends
+}
+
+export interface RepeatAnalysis {
+  singleCopyCoverage: number; // 0 when the graph has no coverage to go on
+  segments: Map<string, SegmentCopyNumber>;
+  candidates: string[]; // Segments of copy number 2 or more: branching ones first, then highest first
+}
+
+// Coverage bins are this wide on a log scale (about 10%), so the same relative spread counts at any depth
+const LOG_BIN_WIDTH = 0.1;
+
+// The coverage most bases sit at: the length-weighted mode, taken as the heaviest run of three neighbouring
+// log-scale bins and averaged (by length) over the segments in it. Repeats add bases at multiples of it,
+// but in a typical assembly most of the genome is single-copy.
+export const estimateSingleCopyCoverage = (data: GraphData): number => {
+  const covered = data.nodes.filter(n => n.coverage > 0 && n.length > 0);
+  if (covered.length === 0) return 0;
+  const binOf = (coverage: number) => Math.floor(Math.log(coverage) / LOG_BIN_WIDTH);
+  const bins = new Map<number, number>();
+  covered.forEach(n => bins.set(binOf(n.coverage), (bins.get(binOf(n.coverage)) ?? 0) + n.length));
+
+  let best = 0;
+  let bestWeight = -1;
+  bins.forEach((_, bin) => {
+    const weight = (bins.get(bin - 1) ?? 0) + (bins.get(bin) ?? 0) + (bins.get(bin + 1) ?? 0);
+    if (weight > bestWeight || (weight === bestWeight && bin < best)) {
+      best = bin;
+      bestWeight = weight;
+    }
+  });
+
+  const inMode = covered.filter(n => Math.abs(binOf(n.coverage) - best) <= 1);
+  const length = inMode.reduce((sum, n) => sum + n.length, 0);
+  return inMode.reduce((sum, n) => sum + n.length * n.coverage, 0) / length;
+};
+
+export const analyzeRepeats = (data: GraphData): RepeatAnalysis => {
+  const singleCopyCoverage = estimateSingleCopyCoverage(data);
+
+  // Links at each segment end, to tell where a segment branches
+  const linksAtEnd = new Map<string, number>();
+  data.links.forEach(link => {
+    const ends = getLinkEnds(link);
+    const a = `${link.source}_${ends.source}`;
+    const b = `${link.target}_${ends.target}`;
+    linksAtEnd.set(a, (linksAtEnd.get(a) ?? 0) + 1);
+    if (b !== a) linksAtEnd.set(b, (linksAtEnd.get(b) ?? 0) + 1);
+  });
+
+  const segments = new Map<string, SegmentCopyNumber>();
+  data.nodes.forEach(node => {
+    const ratio = singleCopyCoverage > 0 ? node.coverage / singleCopyCoverage : 1;
+    const startLinks = linksAtEnd.get(`${node.id}_start`) ?? 0;
+    const endLinks = linksAtEnd.get(`${node.id}_end`) ?? 0;
+    segments.set(node.id, {
+      copyNumber: Math.max(1, Math.round(ratio)),
+      ratio,
+      startLinks,
+      endLinks,
+      branching: startLinks > 1 || endLinks > 1
+    });
+  });
+
+  // Coverage and topology together make the strongest case, so branching segments lead the list; an
+  // unbranched one may still be a repeat whose copies the neighbours' links resolve
+  const candidates = data.nodes
+    .filter(node => segments.get(node.id)!.copyNumber >= 2)
+    .sort((a, b) => {
+      const sa = segments.get(a.id)!;
+      const sb = segments.get(b.id)!;
+      return Number(sb.branching) - Number(sa.branching) || sb.ratio - sa.ratio;
+    })
+    .map(node => node.id);
+  return { singleCopyCoverage, segments, candidates };
+};
@@ -0,0 +1,379 @@
+import { create, ZoomTransform } from 'd3';
+import { AssemblyNode, LayoutNode, SimulationNode, SimulationLink } from '../types';
+import { getContigMidpoint, getContigPath, traceContigPath } from './layout';
+import { ContigDetail, DetailThresholds, getContigDetail, getContigDotPath, isEdgeVisible, Viewport } from './levelOfDetail';
+
+// Straight edge between two contig ends; a link joining an end to itself (a hairpin) is drawn as a small loop
+export const getEdgePath = (s: SimulationNode, t: SimulationNode) => {
+  if (s.x === undefined || s.y === undefined || t.x === undefined || t.y === undefined) return "";
+  if (s === t) {
+    return `M${s.x},${s.y} C${s.x - 25},${s.y - 35} ${s.x + 25},${s.y - 35} ${s.x},${s.y}`;
+  }
+  return `M${s.x},${s.y} L${t.x},${t.y}`;
+};
+
+// Chevrons along a contig pointing from its start to its end: one at each bend point of the chain,
+// oriented along the curve there, or one at the middle of a straight contig
+const getStrandMarks = (node: LayoutNode) => {
+  const { chain } = node;
+  if (chain.some(n => n.x === undefined || n.y === undefined)) return [];
+  const marks: { x: number; y: number; ux: number; uy: number }[] = [];
+  const push = (x: number, y: number, dx: number, dy: number) => {
+    const len = Math.hypot(dx, dy);
+    if (len > 0) marks.push({ x, y, ux: dx / len, uy: dy / len });
+  };
+  if (chain.length === 2) {
+    const [s, e] = chain;
+    push((s.x! + e.x!) / 2, (s.y! + e.y!) / 2, e.x! - s.x!, e.y! - s.y!);
+  }
+  for (let i = 1; i < chain.length - 1; i++) {
+    push(chain[i].x!, chain[i].y!, chain[i + 1].x! - chain[i - 1].x!, chain[i + 1].y! - chain[i - 1].y!);
+  }
+  return marks;
+};
+
+// Strand chevrons sized to fit inside a contig bar of the given width, as one SVG path
+export const getContigArrowPath = (node: LayoutNode, contigWidth: number) => {
+  const h = contigWidth * 0.35;
+  return getStrandMarks(node).map(({ x, y, ux, uy }) =>
+    `M${x - ux * h - uy * h},${y - uy * h + ux * h} L${x + ux * h},${y + uy * h} L${x - ux * h + uy * h},${y - uy * h - ux * h}`
+  ).join(' ');
+};
+
+export const CONTIG_ARROW_COLOR = 'rgba(15, 23, 42, 0.55)';
+
+// Ring around a contig end whose links lead to segments outside the drawn scope
+export const HIDDEN_NEIGHBOUR_COLOR = '#fbbf24';
+export const getHiddenNeighbourRadius = (contigWidth: number) => contigWidth * 0.6 + 2;
+
+// Everything the canvas backend (and its SVG snapshot) needs for one frame; styling mirrors the SVG renderer
+export interface CanvasScene {
+  nodes: LayoutNode[];
+  edges: SimulationLink[];
+  transform: ZoomTransform;
+  contigWidth: number;
+  getNodeColor: (node: AssemblyNode) => string;
+  getEdgeWidth: (edge: SimulationLink) => number;
+  getLabelText: (node: AssemblyNode) => string;
+  showLabels: boolean;
+  showArrows: boolean;
+  labelOutline: boolean;
+  lightBackground: boolean;
+  // Selection and path highlight
+  isHighlighted: (id: string) => boolean;
+  dimOthers: boolean;
+  isPathEdge: (edge: SimulationLink) => boolean;
+  pathActive: boolean;
+  // Level of detail; a null viewport draws everything regardless of where it is
+  viewport: Viewport | null;
+  detail: DetailThresholds;
+  hiddenNeighbourEnds: SimulationNode[];
+}
+
+const EDGE_COLOR = '#475569';
+const PATH_EDGE_COLOR = '#f59e0b';
+const ARROW_COLOR = '#64748b';
+
+const hasPosition = (n: SimulationNode) => n.x !== undefined && n.y !== undefined;
+
+// The parts of a scene the current zoom shows, with how much of each contig to draw
+interface VisibleScene {
+  nodes: LayoutNode[];
+  edges: SimulationLink[];
+  details: Map<LayoutNode, ContigDetail>;
+  hiddenNeighbourEnds: SimulationNode[];
+}
+
+const getVisibleScene = (scene: CanvasScene): VisibleScene => {
+  const details = new Map<LayoutNode, ContigDetail>();
+  const nodes = scene.nodes.filter(node => {
+    if (!node.chain.every(hasPosition)) return false;
+    const detail = getContigDetail(node, scene.transform.k, scene.viewport, scene.detail);
+    details.set(node, detail);
+    return detail.visible;
+  });
+  const edges = scene.edges.filter(edge => {
+    const s = edge.source as SimulationNode;
+    const t = edge.target as SimulationNode;
+    return hasPosition(s) && hasPosition(t) && isEdgeVisible(s, t, scene.viewport);
+  });
+  const hiddenNeighbourEnds = scene.hiddenNeighbourEnds.filter(n => hasPosition(n) && isEdgeVisible(n, n, scene.viewport));
+  return { nodes, edges, details, hiddenNeighbourEnds };
+};
+
+// Matches the SVG arrow marker: a small triangle just short of the target end
+const drawArrow = (ctx: CanvasRenderingContext2D, s: SimulationNode, t: SimulationNode, width: number) => {
+  const dx = t.x! - s.x!;
+  const dy = t.y! - s.y!;
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return;
+  const ux = dx / len;
+  const uy = dy / len;
+  const scale = width / 2;
+  const tipX = t.x! - ux * 5 * scale;
+  const tipY = t.y! - uy * 5 * scale;
+  const baseX = tipX - ux * 5 * scale;
+  const baseY = tipY - uy * 5 * scale;
+  ctx.beginPath();
+  ctx.moveTo(tipX, tipY);
+  ctx.lineTo(baseX - uy * 2.5 * scale, baseY + ux * 2.5 * scale);
+  ctx.lineTo(baseX + uy * 2.5 * scale, baseY - ux * 2.5 * scale);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawEdges = (ctx: CanvasRenderingContext2D, scene: CanvasScene, visible: VisibleScene) => {
+  ctx.fillStyle = ARROW_COLOR;
+  visible.edges.forEach(edge => {
+    const s = edge.source as SimulationNode;
+    const t = edge.target as SimulationNode;
+    if (!hasPosition(s) || !hasPosition(t)) return;
+    const onPath = scene.isPathEdge(edge);
+    const width = onPath ? Math.max(4, scene.getEdgeWidth(edge)) : scene.getEdgeWidth(edge);
+
+    ctx.globalAlpha = scene.pathActive && !onPath ? 0.3 : 1;
+    ctx.strokeStyle = onPath ? PATH_EDGE_COLOR : EDGE_COLOR;
+    ctx.lineWidth = width;
+    ctx.setLineDash(edge.gap ? [6, 4] : []);
+    ctx.beginPath();
+    ctx.moveTo(s.x!, s.y!);
+    if (s === t) {
+      // Hairpin loop, as in the SVG edge path
+      ctx.bezierCurveTo(s.x! - 25, s.y! - 35, s.x! + 25, s.y! - 35, s.x!, s.y!);
+    } else {
+      ctx.lineTo(t.x!, t.y!);
+    }
+    ctx.stroke();
+    if (scene.showArrows && s !== t) drawArrow(ctx, s, t, width);
+  });
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+};
+
+const drawContig = (ctx: CanvasRenderingContext2D, scene: CanvasScene, node: LayoutNode, highlighted: boolean, dot: boolean) => {
+  ctx.globalAlpha = scene.dimOthers && !highlighted ? 0.3 : 1;
+  ctx.shadowBlur = highlighted ? 8 * scene.transform.k : 0;
+  if (dot) {
+    const mid = getContigMidpoint(node);
+    if (!mid) return;
+    ctx.fillStyle = scene.getNodeColor(node);
+    ctx.beginPath();
+    ctx.arc(mid[0], mid[1], scene.contigWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  ctx.strokeStyle = scene.getNodeColor(node);
+  ctx.beginPath();
+  traceContigPath(node, ctx);
+  ctx.stroke();
+};
+
+const drawContigArrows = (ctx: CanvasRenderingContext2D, scene: CanvasScene, visible: VisibleScene) => {
+  const h = scene.contigWidth * 0.35;
+  ctx.strokeStyle = CONTIG_ARROW_COLOR;
+  ctx.lineWidth = Math.max(1, scene.contigWidth / 6);
+  visible.nodes.forEach(node => {
+    if (visible.details.get(node)?.dot) return;
+    ctx.globalAlpha = scene.dimOthers && !scene.isHighlighted(node.id) ? 0.3 : 1;
+    ctx.beginPath();
+    getStrandMarks(node).forEach(({ x, y, ux, uy }) => {
+      ctx.moveTo(x - ux * h - uy * h, y - uy * h + ux * h);
+      ctx.lineTo(x + ux * h, y + uy * h);
+      ctx.lineTo(x - ux * h + uy * h, y - uy * h - ux * h);
+    });
+    ctx.stroke();
+  });
+  ctx.globalAlpha = 1;
+};
+
+const drawLabels = (ctx: CanvasRenderingContext2D, scene: CanvasScene, visible: VisibleScene) => {
+  ctx.font = '10px "JetBrains Mono", monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = scene.lightBackground ? '#111' : 'white';
+  ctx.strokeStyle = scene.lightBackground ? '#ffffff' : '#000000';
+  ctx.lineWidth = scene.lightBackground ? 3 : 2;
+  ctx.lineJoin = 'round';
+  visible.nodes.forEach(node => {
+    if (!visible.details.get(node)?.label) return;
+    const mid = getContigMidpoint(node);
+    if (!mid) return;
+    const text = scene.getLabelText(node);
+    if (!text) return;
+    if (scene.labelOutline) ctx.strokeText(text, mid[0], mid[1]);
+    ctx.fillText(text, mid[0], mid[1]);
+  });
+};
+
+// Redraws the whole scene; the canvas is resized to its CSS box at the device pixel ratio
+export const drawCanvasScene = (canvas: HTMLCanvasElement, scene: CanvasScene) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * dpr);
+  const height = Math.round(canvas.clientHeight * dpr);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  const { k, x, y } = scene.transform;
+  ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * x, dpr * y);
+
+  const visible = getVisibleScene(scene);
+  drawEdges(ctx, scene, visible);
+
+  ctx.lineWidth = scene.contigWidth;
+  ctx.lineCap = 'round';
+  ctx.shadowColor = 'white';
+  // Highlighted contigs go last so they sit on top, like the raised SVG paths
+  const highlighted: LayoutNode[] = [];
+  visible.nodes.forEach(node => {
+    if (scene.isHighlighted(node.id)) highlighted.push(node);
+    else drawContig(ctx, scene, node, false, !!visible.details.get(node)?.dot);
+  });
+  highlighted.forEach(node => drawContig(ctx, scene, node, true, !!visible.details.get(node)?.dot));
+  ctx.shadowBlur = 0;
+  ctx.globalAlpha = 1;
+
+  if (visible.hiddenNeighbourEnds.length > 0) {
+    const r = getHiddenNeighbourRadius(scene.contigWidth);
+    ctx.strokeStyle = HIDDEN_NEIGHBOUR_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    visible.hiddenNeighbourEnds.forEach(n => {
+      ctx.moveTo(n.x! + r, n.y!);
+      ctx.arc(n.x!, n.y!, r, 0, Math.PI * 2);
+    });
+    ctx.stroke();
+  }
+
+  if (scene.showArrows) drawContigArrows(ctx, scene, visible);
+
+  if (scene.showLabels) drawLabels(ctx, scene, visible);
+};
+
+const distanceToSegment = (px: number, py: number, s: SimulationNode, e: SimulationNode) => {
+  const dx = e.x! - s.x!;
+  const dy = e.y! - s.y!;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - s.x!) * dx + (py - s.y!) * dy) / lengthSq));
+  return Math.hypot(px - (s.x! + t * dx), py - (s.y! + t * dy));
+};
+
+// Contig under a screen point (topmost first), or null; stands in for SVG hit testing
+export const findContigAt = (
+  scene: Pick<CanvasScene, 'nodes' | 'transform' | 'contigWidth'>,
+  screenX: number,
+  screenY: number
+): LayoutNode | null => {
+  const [px, py] = scene.transform.invert([screenX, screenY]);
+  // A few screen pixels of slack so thin contigs stay clickable when zoomed out
+  const tolerance = scene.contigWidth / 2 + 3 / scene.transform.k;
+  // Measured against the chain's straight pieces, which the drawn curve stays close to
+  for (let i = scene.nodes.length - 1; i >= 0; i--) {
+    const { chain } = scene.nodes[i];
+    if (!chain.every(hasPosition)) continue;
+    for (let j = 1; j < chain.length; j++) {
+      if (distanceToSegment(px, py, chain[j - 1], chain[j]) <= tolerance) return scene.nodes[i];
+    }
+  }
+  return null;
+};
+
+// Static SVG of the scene as it is drawn on the canvas, so large graphs can still be exported as vectors
+export const sceneToSvg = (scene: CanvasScene): SVGSVGElement => {
+  const svg = create('svg')
+    .attr('xmlns', 'http://www.w3.org/2000/svg')
+    .attr('width', '100%')
+    .attr('height', '100%');
+
+  svg.append('defs').append('marker')
+    .attr('id', 'arrow-head')
+    .attr('viewBox', '0 -5 10 10')
+    .attr('refX', 15)
+    .attr('refY', 0)
+    .attr('markerWidth', 5)
+    .attr('markerHeight', 5)
+    .attr('orient', 'auto')
+    .append('path')
+    .attr('fill', ARROW_COLOR)
+    .attr('d', 'M0,-5L10,0L0,5');
+
+  const container = svg.append('g').attr('transform', scene.transform.toString());
+  const visible = getVisibleScene(scene);
+  const isDot = (node: LayoutNode) => !!visible.details.get(node)?.dot;
+
+  container.append('g').selectAll('path')
+    .data(visible.edges)
+    .join('path')
+    .attr('d', d => getEdgePath(d.source as SimulationNode, d.target as SimulationNode))
+    .attr('fill', 'none')
+    .attr('stroke', d => scene.isPathEdge(d) ? PATH_EDGE_COLOR : EDGE_COLOR)
+    .attr('stroke-width', d => scene.isPathEdge(d) ? Math.max(4, scene.getEdgeWidth(d)) : scene.getEdgeWidth(d))
+    .attr('stroke-dasharray', d => d.gap ? '6,4' : null)
+    .attr('opacity', d => scene.pathActive && !scene.isPathEdge(d) ? 0.3 : null)
+    .attr('marker-end', scene.showArrows ? 'url(#arrow-head)' : null);
+
+  const placed = [...visible.nodes];
+  // Highlighted contigs last, as on the canvas
+  placed.sort((a, b) => Number(scene.isHighlighted(a.id)) - Number(scene.isHighlighted(b.id)));
+
+  container.append('g').selectAll('path')
+    .data(placed)
+    .join('path')
+    .attr('d', d => isDot(d) ? getContigDotPath(d) : getContigPath(d))
+    .attr('fill', 'none')
+    .attr('stroke', d => scene.getNodeColor(d))
+    .attr('stroke-width', scene.contigWidth)
+    .attr('stroke-linecap', 'round')
+    .attr('opacity', d => scene.dimOthers && !scene.isHighlighted(d.id) ? 0.3 : null);
+
+  if (scene.showArrows) {
+    container.append('g').selectAll('path')
+      .data(placed.filter(d => !isDot(d)))
+      .join('path')
+      .attr('d', d => getContigArrowPath(d, scene.contigWidth))
+      .attr('fill', 'none')
+      .attr('stroke', CONTIG_ARROW_COLOR)
+      .attr('stroke-width', Math.max(1, scene.contigWidth / 6))
+      .attr('stroke-linecap', 'round')
+      .attr('opacity', d => scene.dimOthers && !scene.isHighlighted(d.id) ? 0.3 : null);
+  }
+
+  if (visible.hiddenNeighbourEnds.length > 0) {
+    container.append('g').selectAll('circle')
+      .data(visible.hiddenNeighbourEnds)
+      .join('circle')
+      .attr('cx', d => d.x!)
+      .attr('cy', d => d.y!)
+      .attr('r', getHiddenNeighbourRadius(scene.contigWidth))
+      .attr('fill', 'none')
+      .attr('stroke', HIDDEN_NEIGHBOUR_COLOR)
+      .attr('stroke-width', 2);
+  }
+
+  if (scene.showLabels) {
+    const labels = container.append('g').selectAll('text')
+      .data(placed.filter(d => visible.details.get(d)?.label))
+      .join('text')
+      .text(d => scene.getLabelText(d))
+      .attr('x', d => getContigMidpoint(d)![0])
+      .attr('y', d => getContigMidpoint(d)![1])
+      .attr('font-family', 'JetBrains Mono')
+      .attr('font-size', '10px')
+      .attr('fill', scene.lightBackground ? '#111' : 'white')
+      .attr('text-anchor', 'middle')
+      .attr('dominant-baseline', 'middle');
+    if (scene.labelOutline) {
+      labels
+        .attr('stroke', scene.lightBackground ? '#ffffff' : '#000000')
+        .attr('stroke-width', scene.lightBackground ? 3 : 2)
+        .attr('paint-order', 'stroke');
+    }
+  }
+
+  return svg.node()!;
+};
@@ -0,0 +1,87 @@
+import { GraphData, GraphScope } from '../types';
+import { ContigEnd, getLinkEnds, parseStrandNodeId } from './orientation';
+import { createPriorityQueue } from './priorityQueue';
+
+export interface ScopedGraph {
+  data: GraphData;
+  // Segment ends ("ctg_5_end") with a link to a segment outside the scope
+  hiddenEnds: Set<string>;
+}
+
+export interface ScopeOptions {
+  scope: GraphScope;
+  steps: number; // 'steps': links walked out from the centre segments
+  distance: number; // 'distance': bases of other segments allowed between a segment and the nearest centre
+}
+
+// Segment ids in a typed list ("ctg_5, ctg_7-"); strand ids count as their segment
+export const resolveSegmentIds = (input: string, data: GraphData): { found: string[]; notFound: string[] } => {
+  const nodeIds = new Set(data.nodes.map(n => n.id));
+  const found = new Set<string>();
+  const notFound: string[] = [];
+  input.split(/[;,\s]+/).map(s => s.trim()).filter(Boolean).forEach(query => {
+    const segmentId = nodeIds.has(query) ? query : parseStrandNodeId(query).segmentId;
+    if (nodeIds.has(segmentId)) found.add(segmentId);
+    else notFound.push(query);
+  });
+  return { found: Array.from(found), notFound };
+};
+
+// How far each segment is from the nearest centre, walking links either way regardless of strand: in links for
+// 'steps', in bases of the segments passed through for 'distance'. Segments beyond `limit` are left out.
+const measureFromCentres = (data: GraphData, centres: string[], byLength: boolean, limit: number) => {
+  const lengths = new Map(data.nodes.map(n => [n.id, n.length]));
+  const adjacent = new Map<string, string[]>();
+  data.links.forEach(link => {
+    if (!adjacent.has(link.source)) adjacent.set(link.source, []);
+    if (!adjacent.has(link.target)) adjacent.set(link.target, []);
+    adjacent.get(link.source)!.push(link.target);
+    adjacent.get(link.target)!.push(link.source);
+  });
+
+  const best = new Map<string, number>();
+  const queue = createPriorityQueue<string>();
+  centres.forEach(id => {
+    best.set(id, 0);
+    queue.push(id, 0);
+  });
+  const centreSet = new Set(centres);
+  while (queue.size() > 0) {
+    const { key: dist, value: id } = queue.pop()!;
+    if (dist > (best.get(id) ?? Infinity)) continue;
+    // Leaving a segment costs its own length, except for the centres the distance is measured from
+    const step = byLength ? (centreSet.has(id) ? 0 : lengths.get(id) ?? 0) : 1;
+    (adjacent.get(id) ?? []).forEach(next => {
+      const nextDist = dist + step;
+      if (nextDist > limit || nextDist >= (best.get(next) ?? Infinity)) return;
+      best.set(next, nextDist);
+      queue.push(next, nextDist);
+    });
+  }
+  return best;
+};
+
+// The part of the graph to draw: everything, or the segments around `centres` and the links between them
+export const getScopedGraph = (data: GraphData, centres: string[], options: ScopeOptions): ScopedGraph => {
+  if (options.scope === 'entire') return { data, hiddenEnds: new Set() };
+
+  const kept = options.scope === 'steps'
+    ? measureFromCentres(data, centres, false, Math.max(0, Math.floor(options.steps)))
+    : measureFromCentres(data, centres, true, Math.max(0, options.distance));
+
+  const hiddenEnds = new Set<string>();
+  const links = data.links.filter(link => {
+    const source = kept.has(link.source);
+    const target = kept.has(link.target);
+    if (source !== target) {
+      const ends = getLinkEnds(link);
+      const [id, end]: [string, ContigEnd] = source ? [link.source, ends.source] : [link.target, ends.target];
+      hiddenEnds.add(`${id}_${end}`);
+    }
+    return source && target;
+  });
+  return {
+    data: { ...data, nodes: data.nodes.filter(n => kept.has(n.id)), links },
+    hiddenEnds
+  };
+};
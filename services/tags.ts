@@ -0,0 +1,41 @@
+import { GfaTag, TagType } from '../types';
+
+const TAG_FIELD = /^([A-Za-z][A-Za-z0-9]):([AifZJHB]):(.*)$/;
+
+// Parses one optional field (TAG:TYPE:VALUE); returns null when it isn't a well-formed typed tag
+export const parseTag = (field: string): { name: string; tag: GfaTag } | null => {
+  const m = TAG_FIELD.exec(field);
+  if (!m) return null;
+  const [, name, rawType, raw] = m;
+  const type = rawType as TagType;
+
+  if (type === 'i' || type === 'f') {
+    const value = type === 'i' ? parseInt(raw, 10) : parseFloat(raw);
+    return Number.isNaN(value) ? null : { name, tag: { type, value } };
+  }
+  if (type === 'B') {
+    // Numeric array: "<subtype>,<v1>,<v2>..."
+    const [, ...values] = raw.split(',');
+    return { name, tag: { type, value: values.map(Number) } };
+  }
+  return { name, tag: { type, value: raw } };
+};
+
+export const formatTagValue = (tag: GfaTag): string => {
+  if (Array.isArray(tag.value)) return tag.value.join(',');
+  if (typeof tag.value === 'number' && !Number.isInteger(tag.value)) return tag.value.toFixed(2);
+  return String(tag.value);
+};
+
+export const getNumericTagValue = (tag: GfaTag | undefined): number | null => {
+  return tag && typeof tag.value === 'number' ? tag.value : null;
+};
+
+// Every tag name used by any of the items, sorted for menus
+export const collectTagNames = (items: { tags?: Record<string, GfaTag> }[]): string[] => {
+  const names = new Set<string>();
+  items.forEach(item => {
+    if (item.tags) Object.keys(item.tags).forEach(name => names.add(name));
+  });
+  return Array.from(names).sort();
+};
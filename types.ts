@@ -1,30 +1,121 @@
 import { SimulationNodeDatum, SimulationLinkDatum } from 'd3';
 
+// Strand of a segment as written in GFA: '+' is the stored sequence, '-' its reverse complement
+export type Orientation = '+' | '-';
+
+// GFA optional field types: character, integer, float, string, JSON, hex byte array, numeric array
+export type TagType = 'A' | 'i' | 'f' | 'Z' | 'J' | 'H' | 'B';
+
+export interface GfaTag {
+  type: TagType;
+  value: string | number | number[];
+}
+
 export interface AssemblyNode {
   id: string;
   length: number; // Base pairs
   coverage: number; // Read depth
   sequence?: string;
   group?: number;
+  // Set on strand nodes in double mode: the underlying segment and which strand this node shows
+  segmentId?: string;
+  strand?: Orientation;
+  fragmentCount?: number; // GFA2 F records (reads/fragments placed on this segment)
+  tags?: Record<string, GfaTag>; // Every optional field from the record, keyed by tag name
+}
+
+// One CIGAR operation, e.g. "10M" is { length: 10, op: 'M' }
+export type CigarOpType = 'M' | 'I' | 'D' | 'N' | 'S' | 'H' | 'P' | 'X' | '=';
+
+export interface CigarOp {
+  length: number;
+  op: CigarOpType;
 }
 
 export interface AssemblyLink {
   id: string;
   source: string;
   target: string;
+  sourceOrientation: Orientation;
+  targetOrientation: Orientation;
+  // The overlap CIGAR aligns the source's end (reference) against the target's start (query).
+  // overlap is the bp on the source side; queryOverlap, when set, the bp on the target side.
   overlap: number;
+  queryOverlap?: number;
+  cigar?: CigarOp[];
+  // GFA2 gaps (G records) join two segments by an estimated distance instead of an overlap
+  kind?: 'overlap' | 'gap';
+  gapDistance?: number;
+  tags?: Record<string, GfaTag>;
+}
+
+export interface PathStep {
+  segmentId: string;
+  orientation: Orientation;
+}
+
+// An ordered walk through the graph, from a GFA P (path) or W (walk) record
+export interface AssemblyPath {
+  id: string;
+  kind: 'P' | 'W';
+  steps: PathStep[];
+}
+
+// A GFA2 ordered (O) or unordered (U) group, resolved down to the segments it covers
+export interface AssemblyGroup {
+  id: string;
+  ordered: boolean;
+  segmentIds: string[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'malformed-record'
+  | 'unknown-record'
+  | 'duplicate-segment'
+  | 'dangling-link'
+  | 'length-mismatch'
+  | 'invalid-cigar'
+  | 'malformed-tag'
+  | 'read-failure'
+  | 'truncated';
+
+// A problem found while reading a graph file; line is 1-based (0 when it concerns the whole file)
+export interface ParseDiagnostic {
+  line: number;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
 }
 
 export interface GraphData {
   nodes: AssemblyNode[];
   links: AssemblyLink[];
+  paths?: AssemblyPath[];
+  groups?: AssemblyGroup[];
+  diagnostics?: ParseDiagnostic[];
+}
+
+// Assembly graph file formats WebBandage can open
+export type GraphFormat = 'gfa' | 'fastg' | 'lastgraph';
+
+export interface GraphFileInfo {
+  format: GraphFormat;
+  gzip: boolean; // File starts with the gzip magic bytes and is decompressed while streaming
+}
+
+// Incremental parser fed one line at a time, so files can be streamed instead of loaded whole
+export interface LineParser {
+  parseLine: (line: string) => void;
+  finish: () => GraphData;
 }
 
 // Internal Physics Types
 export interface SimulationNode extends SimulationNodeDatum {
   id: string;
   parentId: string;
-  type: 'start' | 'end'; // Is this the start or end of the contig?
+  type: 'start' | 'mid' | 'end'; // Start or end of the contig, or a bend point in between
   r?: number; // Collision radius
   // D3 physics properties
   x?: number;
@@ -33,21 +124,44 @@ export interface SimulationNode extends SimulationNodeDatum {
   fy?: number | null;
 }
 
+// A contig as laid out: the assembly node plus direct references to its simulation nodes
+export interface LayoutNode extends AssemblyNode {
+  start: SimulationNode;
+  end: SimulationNode;
+  chain: SimulationNode[]; // Every node along the contig in order, from `start` to `end`
+}
+
 export interface SimulationLink extends SimulationLinkDatum<SimulationNode> {
   id: string;
   type: 'backbone' | 'edge'; // Backbone = internal node structure, Edge = logical connection
   source: string | SimulationNode;
   target: string | SimulationNode;
-  parentId?: string; // ID of the AssemblyNode this link belongs to (if backbone)
+  parentId?: string; // ID of the AssemblyNode this link belongs to (if backbone, one per step of its chain)
+  gap?: boolean; // Edge stands for a GFA2 gap rather than an overlap
+  overlap?: number; // Overlap of the link on its source side, in bp
 }
 
 export enum ColorMode {
   DEPTH = 'DEPTH',
   LENGTH = 'LENGTH',
   UNIFORM = 'UNIFORM',
-  RANDOM = 'RANDOM'
+  RANDOM = 'RANDOM',
+  TAG = 'TAG',
+  BUBBLE = 'BUBBLE',
+  ARTIFACT = 'ARTIFACT',
+  COPY_NUMBER = 'COPY_NUMBER'
 }
 
+// 'auto' switches from SVG to canvas once the graph is too large for one DOM element per contig
+export type RendererMode = 'auto' | 'svg' | 'canvas';
+
+// 'force' runs the physics simulation; the others place contigs directly and leave them still
+export type LayoutAlgorithm = 'force' | 'linear' | 'layered' | 'circular';
+
+// Which part of the graph is drawn: all of it, or the neighbourhood of some segments within a number of
+// links ('steps') or bases ('distance')
+export type GraphScope = 'entire' | 'steps' | 'distance';
+
 export interface GraphSettings {
   nodeWidthScale: number; // How "fat" the contig bars are
   nodeLengthScale: number; // Multiplier for bp length to pixel length
@@ -56,6 +170,9 @@ export interface GraphSettings {
   colorMode: ColorMode;
   showLabels: boolean;
   showArrows: boolean;
+  linkWidthByOverlap: boolean; // Draw links thicker the longer their overlap
+  renderer: RendererMode;
+  doubleMode: boolean; // Draw both strands of every segment (N+ and N-) like Bandage's double mode
   lightBackground?: boolean;
   // Detailed label settings
   labelContent: {
@@ -65,10 +182,32 @@ export interface GraphSettings {
     name: boolean;
     depth: boolean;
     csv: boolean;
+    tag: boolean;
+    copyNumber: boolean;
   };
+  labelTag: string; // Tag shown when labelContent.tag is on
+  colorTag: string; // Tag used by ColorMode.TAG
   labelOutline: boolean;
+  // Level of detail, in screen pixels of drawn contig length
+  labelMinContigPx: number; // Hide labels on contigs shorter than this (0 = always label)
+  dotMaxContigPx: number; // Draw contigs shorter than this as dots (0 = never)
+  cullOffscreen: boolean; // Skip contigs and links outside the visible area
   csvLabels: Record<string, string>; // Store uploaded CSV labels
   minNodesToRender?: number;
+  maxComponents: number; // Draw only this many of the largest connected components (0 = all)
+  packComponents: boolean; // Lay out each connected component on its own and pack them in a grid, largest first
+  layoutAlgorithm: LayoutAlgorithm;
+  layoutSeed: number; // Seeds initial contig positions (and the mock graph), so a layout can be reproduced
+  // Artifact flags
+  tipMaxLength: number; // Segments linked at one end only and shorter than this (bp) are tips
+  isolatedMaxLength: number; // Segments with no links and shorter than this (bp) are isolated fragments
+  lowCoverageRatio: number; // Segments below this fraction of their neighbours' coverage are flagged
+  // Scope
+  scope: GraphScope;
+  scopeNodes: string; // Segment ids the neighbourhood is drawn around, as typed
+  scopeSteps: number;
+  scopeDistance: number; // bp
+  markHiddenNeighbours: boolean; // Mark contig ends whose links lead out of the scope
 }
 
 export const DEFAULT_SETTINGS: GraphSettings = {
@@ -79,6 +218,9 @@ export const DEFAULT_SETTINGS: GraphSettings = {
   colorMode: ColorMode.RANDOM,
   showLabels: true,
   showArrows: true,
+  linkWidthByOverlap: false,
+  renderer: 'auto',
+  doubleMode: false,
   lightBackground: false,
   labelContent: {
     custom: false,
@@ -86,9 +228,28 @@ export const DEFAULT_SETTINGS: GraphSettings = {
     blast: false,
     name: true,
     depth: false,
-    csv: false
+    csv: false,
+    tag: false,
+    copyNumber: false
   },
+  labelTag: '',
+  colorTag: '',
   labelOutline: true,
+  labelMinContigPx: 20,
+  dotMaxContigPx: 6,
+  cullOffscreen: true,
   csvLabels: {},
-  minNodesToRender: 0
+  minNodesToRender: 0,
+  maxComponents: 0,
+  packComponents: true,
+  layoutAlgorithm: 'force',
+  layoutSeed: 1,
+  tipMaxLength: 1000,
+  isolatedMaxLength: 1000,
+  lowCoverageRatio: 0.2,
+  scope: 'entire',
+  scopeNodes: '',
+  scopeSteps: 2,
+  scopeDistance: 10000,
+  markHiddenNeighbours: true
 };